@@ -13,6 +13,29 @@ const log = createLogger('Main');
 const logLevel = ( process.env.LOG_LEVEL || LogLevel.FATAL ) as LogLevel;
 Logger.setLogLevel(logLevel as LogLevel);
 
+/**
+ * Parse a comma-separated environment variable, returning undefined when it is unset or empty
+ */
+function parseList(value: string | undefined): string[] | undefined {
+  const items = value?.split(',').map(item => item.trim()).filter(Boolean);
+  return items && items.length > 0 ? items : undefined;
+}
+
+/**
+ * Parse a whole-number environment variable, returning undefined when it is unset or empty and exiting when it is invalid
+ */
+function parseCount(name: string, minimum = 1): number | undefined {
+  const value = process.env[name]?.trim();
+  if (!value) return undefined;
+
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < minimum) {
+    console.error(`❌ ${name} must be a whole number of at least ${minimum}, got "${value}"`);
+    process.exit(1);
+  }
+  return count;
+}
+
 /**
  * Load configuration from environment variables
  */
@@ -23,13 +46,17 @@ function loadConfig(): ServerConfig {
     TRANSPORT_TYPE: process.env.TRANSPORT_TYPE || 'not set',
     PORT: process.env.PORT || 'not set',
     MONGODB_DB_NAME: process.env.MONGODB_DB_NAME || 'default',
+    RECOGNITION_PROVIDER: process.env.RECOGNITION_PROVIDER || 'gemini',
     GOOGLE_API_KEY: process.env.GOOGLE_API_KEY ? '[SET]' : '[NOT SET]',
     MONGODB_URI: process.env.MONGODB_URI ? '[SET]' : '[NOT SET]'
   });
 
+  // Determine recognition provider; the fake provider needs no API key
+  const provider = process.env.RECOGNITION_PROVIDER === 'fake' ? 'fake' : 'gemini';
+  
   // Check for required environment variables
-  const apiKey = process.env.GOOGLE_API_KEY;
-  if (!apiKey) {
+  const apiKey = process.env.GOOGLE_API_KEY || '';
+  if (!apiKey && provider === 'gemini') {
     console.error('❌ GOOGLE_API_KEY environment variable is missing');
     console.error('Please set it in your .env file or environment');
     console.error('Run: cp .env.example .env');
@@ -61,15 +88,56 @@ function loadConfig(): ServerConfig {
     throw new Error('Invalid MONGODB_URI format');
   }
   
+  // Optional Gemini request scheduling limits
+  const maxConcurrency = parseCount('GEMINI_MAX_CONCURRENCY');
+  const maxRetries = parseCount('GEMINI_MAX_RETRIES', 0);
+  
+  // Optional limits for splitting long videos; segments may have no overlap
+  const maxVideoDuration = parseCount('VIDEO_MAX_DURATION');
+  const segmentDuration = parseCount('VIDEO_SEGMENT_DURATION');
+  const segmentOverlap = parseCount('VIDEO_SEGMENT_OVERLAP', 0);
+  
+  // Optional restrictions on media URLs
+  const allowedSchemes = parseList(process.env.URL_ALLOWED_SCHEMES);
+  const allowedDomains = parseList(process.env.URL_ALLOWED_DOMAINS);
+  const blockedDomains = parseList(process.env.URL_BLOCKED_DOMAINS);
+  
   return {
+    provider,
     gemini: {
-      apiKey
+      apiKey,
+      ...(maxConcurrency !== undefined && { maxConcurrency }),
+      ...(maxRetries !== undefined && { maxRetries })
+    },
+    fakeProvider: {
+      scriptPath: process.env.FAKE_PROVIDER_SCRIPT
     },
     transport: transportType,
     port,
     mongodb: {
       uri: mongoUri,
       dbName: process.env.MONGODB_DB_NAME || 'video_analysis'
+    },
+    pricing: {
+      priceTablePath: process.env.PRICE_TABLE_PATH
+    },
+    ffmpeg: {
+      ffmpegPath: process.env.FFMPEG_PATH,
+      ffprobePath: process.env.FFPROBE_PATH
+    },
+    segmentation: {
+      ...(maxVideoDuration !== undefined && { maxDurationSeconds: maxVideoDuration }),
+      ...(segmentDuration !== undefined && { segmentSeconds: segmentDuration }),
+      ...(segmentOverlap !== undefined && { overlapSeconds: segmentOverlap })
+    },
+    urlPolicy: {
+      ...(allowedSchemes && { allowedSchemes }),
+      ...(allowedDomains && { allowedDomains }),
+      ...(blockedDomains && { blockedDomains }),
+      allowPrivateNetworks: process.env.URL_ALLOW_PRIVATE_NETWORKS === 'true'
+    },
+    requestProfiles: {
+      profilesPath: process.env.REQUEST_PROFILES_PATH
     }
   };
 }
@@ -84,6 +152,7 @@ async function main(): Promise<void> {
     // Load configuration
     const config = loadConfig();
     log.info(`Using transport: ${config.transport}`);
+    log.info(`Using recognition provider: ${config.provider}`);
     
     // Create and start server
     const server = new Server(config);
@@ -9,40 +9,102 @@ import { randomUUID } from 'crypto';
 import type { Request, Response } from 'express';
 import { createLogger } from './utils/logger.js';
 import { GeminiService } from './services/gemini.js';
+import { FakeRecognitionProvider } from './services/fake-provider.js';
 import { MongoDBService } from './services/mongodb.js';
 import { MediaDownloaderService } from './services/media-downloader.js';
+import { RequestProfiles } from './services/request-profiles.js';
+import { CostEstimator } from './services/cost-estimator.js';
+import { FfmpegService } from './services/ffmpeg.js';
+import { VideoSegmenter } from './services/video-segmenter.js';
+import { FrameSampler } from './services/frame-sampler.js';
 import { createImageRecognitionTool } from './tools/image-recognition.js';
 import { createAudioRecognitionTool } from './tools/audio-recognition.js';
 import { createVideoRecognitionTool } from './tools/video-recognition.js';
-import type { GeminiConfig } from './types/index.js';
-import { BaseRecognitionParamsSchema } from './types/index.js';
+import { createEstimateCostTool } from './tools/estimate-cost.js';
+import { createAskFollowupTool } from './tools/ask-followup.js';
+import { createListFilesTool, createGetFileTool, createDeleteFileTool } from './tools/gemini-files.js';
+import { createTranscribeTool, createGetTranscriptTool } from './tools/transcribe.js';
+import { createDetectChaptersTool } from './tools/detect-chapters.js';
+import { createFindMomentsTool } from './tools/find-moments.js';
+import { createDetectObjectsTool } from './tools/detect-objects.js';
+import { createDocumentRecognitionTool } from './tools/document-recognition.js';
+import { createModerateMediaTool } from './tools/moderate-media.js';
+import { createCompareMediaTool } from './tools/compare-media.js';
+import type {
+  GeminiConfig,
+  FakeProviderConfig,
+  FfmpegConfig,
+  VideoSegmentationConfig,
+  UrlPolicyConfig,
+  RecognitionProvider
+} from './types/index.js';
+import {
+  BaseRecognitionParamsSchema,
+  BaseVideoRecognitionParamsSchema,
+  BaseEstimateCostParamsSchema,
+  BaseAskFollowupParamsSchema,
+  BaseTranscribeParamsSchema,
+  BaseGetTranscriptParamsSchema,
+  BaseDetectChaptersParamsSchema,
+  BaseFindMomentsParamsSchema,
+  BaseDetectObjectsParamsSchema,
+  BaseDocumentRecognitionParamsSchema,
+  BaseModerateMediaParamsSchema,
+  BaseCompareMediaParamsSchema,
+  FileNameParamsSchema
+} from './types/index.js';
 
 const log = createLogger('Server');
 
 export interface ServerConfig {
+  provider: 'gemini' | 'fake';
   gemini: GeminiConfig;
+  fakeProvider?: FakeProviderConfig;
   transport: 'stdio' | 'sse';
   port?: number;
   mongodb: {
     uri: string;
     dbName: string;
   };
+  pricing?: {
+    priceTablePath?: string;
+  };
+  ffmpeg?: FfmpegConfig;
+  segmentation?: VideoSegmentationConfig;
+  urlPolicy?: UrlPolicyConfig;
+  requestProfiles?: {
+    profilesPath?: string;
+  };
 }
 
 export class Server {
   private readonly mcpServer: McpServer;
-  private readonly geminiService: GeminiService;
+  private readonly recognitionProvider: RecognitionProvider;
   private readonly mongodbService: MongoDBService;
   private readonly mediaDownloaderService: MediaDownloaderService;
+  private readonly costEstimator: CostEstimator;
+  private readonly ffmpegService: FfmpegService;
+  private readonly videoSegmenter: VideoSegmenter;
+  private readonly frameSampler: FrameSampler;
   private readonly config: ServerConfig;
 
   constructor(config: ServerConfig) {
     this.config = config;
     
     // Initialize services
-    this.geminiService = new GeminiService(config.gemini);
     this.mongodbService = new MongoDBService(config.mongodb.uri, config.mongodb.dbName);
-    this.mediaDownloaderService = new MediaDownloaderService();
+    this.recognitionProvider = config.provider === 'fake'
+      ? new FakeRecognitionProvider(config.fakeProvider)
+      : new GeminiService(config.gemini, this.mongodbService);
+    this.ffmpegService = new FfmpegService(config.ffmpeg);
+    this.mediaDownloaderService = new MediaDownloaderService(
+      this.ffmpegService,
+      new RequestProfiles(config.requestProfiles?.profilesPath),
+      config.urlPolicy
+    );
+    this.costEstimator = new CostEstimator(config.pricing?.priceTablePath);
+    this.videoSegmenter = new VideoSegmenter(this.ffmpegService, config.segmentation);
+    this.frameSampler = new FrameSampler(this.ffmpegService);
     
     // Create MCP server
     this.mcpServer = new McpServer({
@@ -62,17 +124,79 @@ export class Server {
   private registerTools(): void {
     // Create tools with all necessary services
     const imageRecognitionTool = createImageRecognitionTool(
-      this.geminiService,
+      this.recognitionProvider,
       this.mongodbService,
-      this.mediaDownloaderService
+      this.mediaDownloaderService,
+      this.costEstimator
     );
     const audioRecognitionTool = createAudioRecognitionTool(
-      this.geminiService,
+      this.recognitionProvider,
       this.mongodbService,
-      this.mediaDownloaderService
+      this.mediaDownloaderService,
+      this.costEstimator
     );
     const videoRecognitionTool = createVideoRecognitionTool(
-      this.geminiService,
+      this.recognitionProvider,
+      this.mongodbService,
+      this.mediaDownloaderService,
+      this.costEstimator,
+      this.videoSegmenter,
+      this.frameSampler
+    );
+    const estimateCostTool = createEstimateCostTool(
+      this.recognitionProvider,
+      this.mediaDownloaderService,
+      this.costEstimator,
+      this.videoSegmenter,
+      this.frameSampler
+    );
+    const askFollowupTool = createAskFollowupTool(
+      this.recognitionProvider,
+      this.mongodbService,
+      this.mediaDownloaderService,
+      this.videoSegmenter,
+      this.frameSampler
+    );
+    const listFilesTool = createListFilesTool(this.recognitionProvider);
+    const getFileTool = createGetFileTool(this.recognitionProvider);
+    const deleteFileTool = createDeleteFileTool(this.recognitionProvider);
+    const transcribeTool = createTranscribeTool(
+      this.recognitionProvider,
+      this.mongodbService,
+      this.mediaDownloaderService,
+      this.ffmpegService
+    );
+    const getTranscriptTool = createGetTranscriptTool(this.mongodbService);
+    const detectChaptersTool = createDetectChaptersTool(
+      this.recognitionProvider,
+      this.mongodbService,
+      this.mediaDownloaderService,
+      this.ffmpegService
+    );
+    const findMomentsTool = createFindMomentsTool(
+      this.recognitionProvider,
+      this.mongodbService,
+      this.mediaDownloaderService,
+      this.ffmpegService,
+      this.frameSampler
+    );
+    const detectObjectsTool = createDetectObjectsTool(
+      this.recognitionProvider,
+      this.mediaDownloaderService,
+      this.ffmpegService
+    );
+    const documentRecognitionTool = createDocumentRecognitionTool(
+      this.recognitionProvider,
+      this.mongodbService,
+      this.mediaDownloaderService
+    );
+    const moderateMediaTool = createModerateMediaTool(
+      this.recognitionProvider,
+      this.mongodbService,
+      this.mediaDownloaderService
+    );
+    const compareMediaTool = createCompareMediaTool(
+      this.recognitionProvider,
       this.mongodbService,
       this.mediaDownloaderService
     );
@@ -95,10 +219,100 @@ export class Server {
     this.mcpServer.tool(
       videoRecognitionTool.name,
       videoRecognitionTool.description,
-      BaseRecognitionParamsSchema.shape,
+      BaseVideoRecognitionParamsSchema.shape,
       videoRecognitionTool.callback
     );
     
+    this.mcpServer.tool(
+      estimateCostTool.name,
+      estimateCostTool.description,
+      BaseEstimateCostParamsSchema.shape,
+      estimateCostTool.callback
+    );
+    
+    this.mcpServer.tool(
+      askFollowupTool.name,
+      askFollowupTool.description,
+      BaseAskFollowupParamsSchema.shape,
+      askFollowupTool.callback
+    );
+    
+    this.mcpServer.tool(
+      listFilesTool.name,
+      listFilesTool.description,
+      listFilesTool.callback
+    );
+    
+    this.mcpServer.tool(
+      getFileTool.name,
+      getFileTool.description,
+      FileNameParamsSchema.shape,
+      getFileTool.callback
+    );
+    
+    this.mcpServer.tool(
+      deleteFileTool.name,
+      deleteFileTool.description,
+      FileNameParamsSchema.shape,
+      deleteFileTool.callback
+    );
+    
+    this.mcpServer.tool(
+      transcribeTool.name,
+      transcribeTool.description,
+      BaseTranscribeParamsSchema.shape,
+      transcribeTool.callback
+    );
+    
+    this.mcpServer.tool(
+      getTranscriptTool.name,
+      getTranscriptTool.description,
+      BaseGetTranscriptParamsSchema.shape,
+      getTranscriptTool.callback
+    );
+    
+    this.mcpServer.tool(
+      detectChaptersTool.name,
+      detectChaptersTool.description,
+      BaseDetectChaptersParamsSchema.shape,
+      detectChaptersTool.callback
+    );
+    
+    this.mcpServer.tool(
+      findMomentsTool.name,
+      findMomentsTool.description,
+      BaseFindMomentsParamsSchema.shape,
+      findMomentsTool.callback
+    );
+    
+    this.mcpServer.tool(
+      detectObjectsTool.name,
+      detectObjectsTool.description,
+      BaseDetectObjectsParamsSchema.shape,
+      detectObjectsTool.callback
+    );
+    
+    this.mcpServer.tool(
+      documentRecognitionTool.name,
+      documentRecognitionTool.description,
+      BaseDocumentRecognitionParamsSchema.shape,
+      documentRecognitionTool.callback
+    );
+    
+    this.mcpServer.tool(
+      moderateMediaTool.name,
+      moderateMediaTool.description,
+      BaseModerateMediaParamsSchema.shape,
+      moderateMediaTool.callback
+    );
+    
+    this.mcpServer.tool(
+      compareMediaTool.name,
+      compareMediaTool.description,
+      BaseCompareMediaParamsSchema.shape,
+      compareMediaTool.callback
+    );
+    
     log.info('All tools registered with MCP server');
   }
 
@@ -0,0 +1,137 @@
+/**
+ * Cost estimation for recognition requests based on input token counts
+ */
+
+import * as fs from 'node:fs';
+import { createLogger } from '../utils/logger.js';
+import type { GeminiFile, ProcessFileOptions, RecognitionProvider } from '../types/index.js';
+
+const log = createLogger('CostEstimator');
+
+/**
+ * Prices in USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  audioInput?: number;            // Audio input is billed at a higher rate on some models
+  longContextThreshold?: number;  // Prompts above this many tokens use the long context rates
+  longContextInput?: number;
+  longContextOutput?: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export type CostEstimate = {
+  model: string;
+  mimeType: string;
+  inputTokens: number;
+  inputPricePerMillion: number | null;
+  outputPricePerMillion: number | null;
+  estimatedInputCostUsd: number | null;
+};
+
+/**
+ * Published Gemini API list prices; override with PRICE_TABLE_PATH when they change
+ */
+const DEFAULT_PRICE_TABLE: PriceTable = {
+  'gemini-2.5-pro': {
+    input: 1.25,
+    output: 10,
+    longContextThreshold: 200000,
+    longContextInput: 2.5,
+    longContextOutput: 15
+  },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5, audioInput: 1 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4, audioInput: 0.3 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4, audioInput: 0.7 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 }
+};
+
+export class CostEstimator {
+  private readonly priceTable: PriceTable;
+
+  constructor(priceTablePath?: string) {
+    this.priceTable = {
+      ...DEFAULT_PRICE_TABLE,
+      ...(priceTablePath && this.loadPriceTable(priceTablePath))
+    };
+  }
+
+  /**
+   * Load price overrides from a JSON file
+   */
+  private loadPriceTable(priceTablePath: string): PriceTable {
+    try {
+      const table = JSON.parse(fs.readFileSync(priceTablePath, 'utf8')) as PriceTable;
+      log.info(`Loaded prices for ${Object.keys(table).length} models from ${priceTablePath}`);
+      return table;
+    } catch (error) {
+      throw new Error(`Failed to load price table ${priceTablePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Find the price entry for a model, falling back to the longest matching prefix
+   * so dated or preview variants use their base model's price
+   */
+  getPrice(modelName: string): ModelPrice | undefined {
+    if (this.priceTable[modelName]) {
+      return this.priceTable[modelName];
+    }
+
+    const prefix = Object.keys(this.priceTable)
+      .filter(name => modelName.startsWith(name))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix ? this.priceTable[prefix] : undefined;
+  }
+
+  /**
+   * Count input tokens for a request and price them
+   */
+  async estimate(
+    provider: RecognitionProvider,
+    file: GeminiFile,
+    prompt: string,
+    modelName: string,
+    options: ProcessFileOptions = {}
+  ): Promise<CostEstimate> {
+    const inputTokens = await provider.countTokens(file, prompt, modelName, options);
+    return this.priceTokens(modelName, file.mimeType, inputTokens);
+  }
+
+  /**
+   * Price a known number of input tokens for media of the given type
+   */
+  priceTokens(modelName: string, mimeType: string, inputTokens: number): CostEstimate {
+    const price = this.getPrice(modelName);
+
+    if (!price) {
+      log.warn(`No price configured for model ${modelName}`);
+      return {
+        model: modelName,
+        mimeType,
+        inputTokens,
+        inputPricePerMillion: null,
+        outputPricePerMillion: null,
+        estimatedInputCostUsd: null
+      };
+    }
+
+    const isLongContext = price.longContextThreshold !== undefined && inputTokens > price.longContextThreshold;
+    let inputPrice = isLongContext ? price.longContextInput ?? price.input : price.input;
+    if (mimeType.startsWith('audio/') && price.audioInput !== undefined) {
+      inputPrice = price.audioInput;
+    }
+    const outputPrice = isLongContext ? price.longContextOutput ?? price.output : price.output;
+
+    return {
+      model: modelName,
+      mimeType,
+      inputTokens,
+      inputPricePerMillion: inputPrice,
+      outputPricePerMillion: outputPrice,
+      estimatedInputCostUsd: Number(((inputTokens / 1_000_000) * inputPrice).toFixed(6))
+    };
+  }
+}
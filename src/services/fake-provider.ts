@@ -0,0 +1,275 @@
+/**
+ * Deterministic offline recognition provider for running without network or API key
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as crypto from 'node:crypto';
+import { createLogger } from '../utils/logger.js';
+import { parseStructuredOutput } from '../utils/structured-output.js';
+import { detectFileFormat } from '../utils/media-formats.js';
+import type {
+  FakeProviderConfig,
+  GeminiFile,
+  GeminiResponse,
+  LabeledFile,
+  LabeledImage,
+  ProcessedGeminiFile,
+  ProcessFileOptions,
+  RecognitionProvider,
+  ResponseMetadata,
+  RemoteFileInfo
+} from '../types/index.js';
+import { FileState } from '../types/index.js';
+
+const log = createLogger('FakeRecognitionProvider');
+
+const FAKE_MEDIA_TOKENS = 258;
+
+/**
+ * A scripted response; the first rule whose patterns all match is used
+ */
+export interface FakeResponseRule {
+  prompt?: string;      // Regular expression tested against the prompt
+  mimeType?: string;    // MIME type prefix, e.g. "video/"
+  model?: string;       // Exact model name
+  text?: string;
+  data?: unknown;       // Returned as structured output when a schema is requested
+  error?: string;       // Respond with an error instead
+}
+
+export interface FakeScript {
+  responses?: FakeResponseRule[];
+  default?: FakeResponseRule;
+}
+
+export class FakeRecognitionProvider implements RecognitionProvider {
+  private readonly script: FakeScript;
+  private readonly files: Map<string, RemoteFileInfo> = new Map();
+  readonly storageQuotaBytes = 20 * 1024 * 1024 * 1024;
+
+  constructor(config: FakeProviderConfig = {}) {
+    this.script = config.scriptPath ? this.loadScript(config.scriptPath) : {};
+    log.info(`Initialized fake recognition provider with ${this.script.responses?.length ?? 0} scripted responses`);
+  }
+
+  /**
+   * Load scripted responses from a JSON file
+   */
+  private loadScript(scriptPath: string): FakeScript {
+    try {
+      return JSON.parse(fs.readFileSync(scriptPath, 'utf8')) as FakeScript;
+    } catch (error) {
+      throw new Error(`Failed to load fake provider script ${scriptPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * "Upload" a file by deriving a stable reference from its content
+   */
+  async uploadFile(filePath: string, knownChecksum?: string): Promise<GeminiFile> {
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`File not found: ${filePath}`);
+    }
+
+    const checksum = knownChecksum ?? crypto.createHash('md5').update(fs.readFileSync(filePath)).digest('hex');
+    const mimeType = detectFileFormat(filePath)?.mimeType ?? 'application/octet-stream';
+    const name = `files/fake-${checksum}`;
+
+    log.debug(`Fake upload of ${path.basename(filePath)} as ${name}`);
+
+    this.files.set(name, {
+      name,
+      displayName: path.basename(filePath),
+      uri: `fake://${name}`,
+      mimeType,
+      sizeBytes: fs.statSync(filePath).size,
+      state: FileState.ACTIVE,
+      createTime: new Date().toISOString(),
+      cachedChecksum: checksum
+    });
+
+    return {
+      uri: `fake://${name}`,
+      mimeType,
+      name,
+      state: FileState.ACTIVE
+    };
+  }
+
+  /**
+   * Return the fake upload of a checksum while it has not been deleted
+   */
+  async getValidCachedFile(checksum: string): Promise<GeminiFile | null> {
+    const file = this.files.get(`files/fake-${checksum}`);
+    if (!file) return null;
+
+    return {
+      uri: file.uri!,
+      mimeType: file.mimeType!,
+      name: file.name,
+      state: file.state
+    };
+  }
+
+  /**
+   * Fake files are ready immediately
+   */
+  async waitForVideoProcessing(file: GeminiFile): Promise<ProcessedGeminiFile> {
+    if (!file.name) {
+      throw new Error('File name is required to check processing status');
+    }
+
+    return {
+      uri: file.uri,
+      mimeType: file.mimeType,
+      name: file.name,
+      state: FileState.ACTIVE
+    };
+  }
+
+  /**
+   * Answer with the first matching scripted response
+   */
+  async processFile(
+    file: GeminiFile,
+    prompt: string,
+    modelName: string,
+    options: ProcessFileOptions = {}
+  ): Promise<GeminiResponse> {
+    const promptTokens = await this.countTokens(file, prompt);
+    return this.respond(file.mimeType, `${file.mimeType} ${file.name}`, prompt, modelName, promptTokens, options);
+  }
+
+  /**
+   * Answer about inline images using the first image's MIME type for rule matching
+   */
+  async processImages(
+    images: LabeledImage[],
+    prompt: string,
+    modelName: string,
+    options: ProcessFileOptions = {}
+  ): Promise<GeminiResponse> {
+    const promptTokens = await this.countImageTokens(images, prompt);
+    return this.respond(images[0]?.mimeType ?? 'image/jpeg', `${images.length} images`, prompt, modelName, promptTokens, options);
+  }
+
+  /**
+   * Answer about several uploaded files using the first file's MIME type for rule matching
+   */
+  async processFiles(
+    files: LabeledFile[],
+    prompt: string,
+    modelName: string,
+    options: ProcessFileOptions = {}
+  ): Promise<GeminiResponse> {
+    const promptTokens = files.length * FAKE_MEDIA_TOKENS + Math.ceil(prompt.length / 4);
+    return this.respond(files[0]?.file.mimeType ?? 'text/plain', `${files.length} files`, prompt, modelName, promptTokens, options);
+  }
+
+  async countImageTokens(images: LabeledImage[], prompt: string): Promise<number> {
+    return images.length * FAKE_MEDIA_TOKENS + Math.ceil(prompt.length / 4);
+  }
+
+  /**
+   * Answer a text-only prompt; rules can target it with the "text/plain" MIME type
+   */
+  async processText(
+    prompt: string,
+    modelName: string,
+    options: ProcessFileOptions = {}
+  ): Promise<GeminiResponse> {
+    const promptTokens = Math.ceil(prompt.length / 4);
+    return this.respond('text/plain', 'text', prompt, modelName, promptTokens, options);
+  }
+
+  private respond(
+    mimeType: string,
+    label: string,
+    prompt: string,
+    modelName: string,
+    promptTokens: number,
+    options: ProcessFileOptions
+  ): GeminiResponse {
+    const rule = this.findRule(mimeType, prompt, modelName);
+
+    if (rule?.error) {
+      return {
+        text: `Error processing file: ${rule.error}`,
+        isError: true
+      };
+    }
+
+    try {
+      if (options.responseSchema) {
+        const text = JSON.stringify(rule?.data ?? {});
+        return {
+          text,
+          data: parseStructuredOutput(text, options.responseSchema),
+          metadata: this.createMetadata(promptTokens, text)
+        };
+      }
+
+      const text = rule?.text ?? `[fake:${modelName}] ${label}: ${prompt}`;
+      return {
+        text,
+        metadata: this.createMetadata(promptTokens, text)
+      };
+    } catch (error) {
+      return {
+        text: `Error processing file: ${error instanceof Error ? error.message : String(error)}`,
+        isError: true
+      };
+    }
+  }
+
+  /**
+   * Deterministic token estimate: a fixed cost for the media plus roughly four characters per token
+   */
+  async countTokens(file: GeminiFile, prompt: string): Promise<number> {
+    return FAKE_MEDIA_TOKENS + Math.ceil(prompt.length / 4);
+  }
+
+  /**
+   * List files "uploaded" during this process
+   */
+  async listFiles(): Promise<RemoteFileInfo[]> {
+    return Array.from(this.files.values());
+  }
+
+  async describeFile(name: string): Promise<RemoteFileInfo> {
+    const file = this.files.get(name.startsWith('files/') ? name : `files/${name}`);
+    if (!file) {
+      throw new Error(`File not found: ${name}`);
+    }
+    return file;
+  }
+
+  async deleteFile(name: string): Promise<void> {
+    const fileName = name.startsWith('files/') ? name : `files/${name}`;
+    if (!this.files.delete(fileName)) {
+      throw new Error(`File not found: ${name}`);
+    }
+  }
+
+  private createMetadata(promptTokens: number, text: string): ResponseMetadata {
+    const outputTokens = Math.ceil(text.length / 4);
+    return {
+      usage: {
+        promptTokens,
+        outputTokens,
+        totalTokens: promptTokens + outputTokens
+      },
+      finishReason: 'STOP'
+    };
+  }
+
+  private findRule(mimeType: string, prompt: string, modelName: string): FakeResponseRule | undefined {
+    const rule = this.script.responses?.find(candidate =>
+      (!candidate.prompt || new RegExp(candidate.prompt, 'i').test(prompt)) &&
+      (!candidate.mimeType || mimeType.startsWith(candidate.mimeType)) &&
+      (!candidate.model || candidate.model === modelName)
+    );
+    return rule ?? this.script.default;
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * Service wrapping the local ffmpeg and ffprobe binaries
+ */
+
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { createLogger } from '../utils/logger.js';
+import type { BoundingBox, FfmpegConfig, MediaProbe } from '../types/index.js';
+
+const log = createLogger('FfmpegService');
+
+const execFileAsync = promisify(execFile);
+
+// ffprobe JSON output can be large for files with many streams
+const MAX_OUTPUT_BUFFER = 16 * 1024 * 1024;
+
+// A downloaded stream track and its container: MPEG-TS, or fragmented MP4 for DASH and HLS with an init segment
+export interface RemuxInput {
+  path: string;
+  format: 'mpegts' | 'mp4';
+}
+
+interface FfprobeOutput {
+  format?: {
+    duration?: string;
+    size?: string;
+  };
+  streams?: Array<{
+    codec_type?: string;
+    width?: number;
+    height?: number;
+  }>;
+}
+
+export class FfmpegService {
+  private readonly ffmpegPath: string;
+  private readonly ffprobePath: string;
+  private readonly workRoot: string;
+  private available: Promise<boolean> | null = null;
+
+  constructor(config: FfmpegConfig = {}) {
+    this.ffmpegPath = config.ffmpegPath || 'ffmpeg';
+    this.ffprobePath = config.ffprobePath || 'ffprobe';
+    this.workRoot = path.join(os.tmpdir(), 'mcp-video-recognition');
+  }
+
+  /**
+   * Check once whether both binaries can be executed
+   */
+  isAvailable(): Promise<boolean> {
+    if (!this.available) {
+      this.available = Promise.all([
+        execFileAsync(this.ffmpegPath, ['-version']),
+        execFileAsync(this.ffprobePath, ['-version'])
+      ])
+        .then(() => true)
+        .catch(error => {
+          log.warn(`ffmpeg is not available: ${error instanceof Error ? error.message : String(error)}`);
+          return false;
+        });
+    }
+    return this.available;
+  }
+
+  /**
+   * Read duration, size and stream information with ffprobe
+   */
+  async probe(filePath: string): Promise<MediaProbe> {
+    const { stdout } = await execFileAsync(this.ffprobePath, [
+      '-v', 'error',
+      '-print_format', 'json',
+      '-show_format',
+      '-show_streams',
+      filePath
+    ], { maxBuffer: MAX_OUTPUT_BUFFER });
+
+    const output = JSON.parse(stdout) as FfprobeOutput;
+    const streams = output.streams ?? [];
+    const video = streams.find(stream => stream.codec_type === 'video');
+    const durationSeconds = parseFloat(output.format?.duration ?? '');
+
+    if (isNaN(durationSeconds)) {
+      throw new Error(`ffprobe could not determine the duration of ${path.basename(filePath)}`);
+    }
+
+    return {
+      durationSeconds,
+      sizeBytes: parseInt(output.format?.size ?? '', 10) || fs.statSync(filePath).size,
+      hasVideo: video !== undefined,
+      hasAudio: streams.some(stream => stream.codec_type === 'audio'),
+      width: video?.width,
+      height: video?.height
+    };
+  }
+
+  /**
+   * Copy a time range of a media file into a new file without re-encoding
+   */
+  async cutSegment(inputPath: string, startSeconds: number, durationSeconds: number, outputPath: string): Promise<void> {
+    log.debug(`Cutting ${durationSeconds}s from ${startSeconds}s of ${inputPath}`);
+    await this.runFfmpeg([
+      '-ss', startSeconds.toFixed(3),
+      '-i', inputPath,
+      '-t', durationSeconds.toFixed(3),
+      '-map', '0',
+      '-c', 'copy',
+      '-avoid_negative_ts', 'make_zero',
+      outputPath
+    ]);
+  }
+
+  /**
+   * Combine the video and audio of one or more inputs into an MP4 without re-encoding, optionally keeping only the first maxSeconds
+   */
+  async remuxToMp4(inputs: RemuxInput[], outputPath: string, maxSeconds?: number): Promise<void> {
+    log.debug(`Remuxing ${inputs.length} inputs into ${outputPath}`);
+    await this.runFfmpeg([
+      // Downloaded bytes are never probed for their format, so a segment cannot pose as a playlist that reads other files or URLs
+      ...inputs.flatMap(input => ['-f', input.format, '-protocol_whitelist', 'file', '-i', input.path]),
+      ...(maxSeconds !== undefined ? ['-t', maxSeconds.toFixed(3)] : []),
+      // Only audio and video; MPEG-TS data streams such as ID3 tags cannot go into MP4
+      ...inputs.flatMap((_, index) => ['-map', `${index}:v?`, '-map', `${index}:a?`]),
+      '-c', 'copy',
+      '-movflags', '+faststart',
+      outputPath
+    ]);
+  }
+
+  /**
+   * Extract the audio track as mono 16 kHz MP3, which is all speech recognition needs
+   */
+  async extractAudio(inputPath: string, outputPath: string): Promise<void> {
+    log.debug(`Extracting audio track of ${inputPath}`);
+    await this.runFfmpeg([
+      '-i', inputPath,
+      '-vn',
+      '-ac', '1',
+      '-ar', '16000',
+      '-b:a', '64k',
+      outputPath
+    ]);
+  }
+
+  /**
+   * Save a single frame as a JPEG, scaled down so its longer side is at most maxDimension pixels
+   */
+  async extractFrame(inputPath: string, atSeconds: number, outputPath: string, maxDimension: number): Promise<void> {
+    await this.runFfmpeg([
+      '-ss', atSeconds.toFixed(3),
+      '-i', inputPath,
+      '-frames:v', '1',
+      '-vf', `scale='min(${maxDimension},iw)':'min(${maxDimension},ih)':force_original_aspect_ratio=decrease`,
+      '-q:v', '3',
+      outputPath
+    ]);
+  }
+
+  /**
+   * Draw box outlines on an image and save it as a PNG; colors are ffmpeg color names
+   */
+  async drawBoxes(inputPath: string, boxes: Array<BoundingBox & { color: string }>, thickness: number, outputPath: string): Promise<void> {
+    const filters = boxes.map(box =>
+      `drawbox=x=${box.xmin}:y=${box.ymin}:w=${box.xmax - box.xmin}:h=${box.ymax - box.ymin}:color=${box.color}:t=${thickness}`
+    );
+    await this.runFfmpeg([
+      '-i', inputPath,
+      '-frames:v', '1',
+      '-vf', filters.join(','),
+      outputPath
+    ]);
+  }
+
+  /**
+   * Find the times, in seconds from the start of the file, where the picture changes by more than the threshold (0-1)
+   */
+  async detectSceneChanges(inputPath: string, threshold: number, startSeconds: number, endSeconds: number): Promise<number[]> {
+    const stderr = await this.runFfmpeg([
+      '-ss', startSeconds.toFixed(3),
+      '-t', (endSeconds - startSeconds).toFixed(3),
+      '-i', inputPath,
+      '-an',
+      '-vf', `select='gt(scene,${threshold})',showinfo`,
+      '-f', 'null',
+      '-'
+    ], 'info');
+
+    // showinfo reports times relative to the seek position
+    return Array.from(stderr.matchAll(/pts_time:\s*([\d.]+)/g), match => startSeconds + parseFloat(match[1]));
+  }
+
+  /**
+   * Create a scratch directory for intermediate files
+   */
+  createWorkDir(prefix: string): string {
+    fs.mkdirSync(this.workRoot, { recursive: true });
+    return fs.mkdtempSync(path.join(this.workRoot, `${prefix}-`));
+  }
+
+  /**
+   * Remove a scratch directory and everything in it
+   */
+  removeWorkDir(dirPath: string): void {
+    try {
+      fs.rmSync(dirPath, { recursive: true, force: true });
+      log.debug(`Removed work directory: ${dirPath}`);
+    } catch (error) {
+      log.error(`Error removing work directory: ${dirPath}`, error);
+    }
+  }
+
+  /**
+   * Run ffmpeg and return what it logged to stderr
+   */
+  private async runFfmpeg(args: string[], logLevel: string = 'error'): Promise<string> {
+    try {
+      const { stderr } = await execFileAsync(this.ffmpegPath, ['-hide_banner', '-loglevel', logLevel, '-y', ...args], {
+        maxBuffer: MAX_OUTPUT_BUFFER
+      });
+      return stderr;
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr?.trim();
+      throw new Error(`ffmpeg failed: ${stderr || (error instanceof Error ? error.message : String(error))}`);
+    }
+  }
+}
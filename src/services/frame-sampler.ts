@@ -0,0 +1,111 @@
+/**
+ * Extracts still frames from a video so it can be sent as a multi-image request
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { createLogger } from '../utils/logger.js';
+import { formatTimestamp } from '../utils/timestamps.js';
+import { FfmpegService } from './ffmpeg.js';
+import type { FrameSelection, LabeledImage, VideoClip } from '../types/index.js';
+
+const log = createLogger('FrameSampler');
+
+// Longer frame side in pixels; larger images are tiled and cost more tokens
+const MAX_FRAME_DIMENSION = 768;
+
+// Fraction of the picture that must change to count as a new scene
+const SCENE_THRESHOLD = 0.3;
+
+export interface VideoFrame extends LabeledImage {
+  timestamp: number;  // Seconds from the start of the video
+}
+
+export class FrameSampler {
+  private readonly ffmpegService: FfmpegService;
+
+  constructor(ffmpegService: FfmpegService) {
+    this.ffmpegService = ffmpegService;
+  }
+
+  /**
+   * Extract frames from the requested range of a video, labelled with their timestamps
+   */
+  async extractFrames(
+    filePath: string,
+    frameCount: number,
+    selection: FrameSelection,
+    clip?: VideoClip
+  ): Promise<VideoFrame[]> {
+    if (!(await this.ffmpegService.isAvailable())) {
+      throw new Error('Frames mode requires ffmpeg and ffprobe to be installed');
+    }
+
+    const probe = await this.ffmpegService.probe(filePath);
+    if (!probe.hasVideo) {
+      throw new Error(`No video stream found in ${path.basename(filePath)}`);
+    }
+
+    // An empty window would sample every frame at the same point
+    const start = clip?.startOffset ?? 0;
+    if (start >= probe.durationSeconds) {
+      throw new Error(`startOffset is past the end of the video (${formatTimestamp(probe.durationSeconds)})`);
+    }
+    const end = Math.min(clip?.endOffset ?? probe.durationSeconds, probe.durationSeconds);
+
+    const timestamps = selection === 'scene'
+      ? await this.getSceneTimestamps(filePath, frameCount, start, end)
+      : this.getUniformTimestamps(frameCount, start, end);
+
+    const frames = await this.extractFramesAt(filePath, timestamps);
+    log.info(`Extracted ${frames.length} ${selection} frames from ${path.basename(filePath)}`);
+    return frames;
+  }
+
+  /**
+   * Extract frames at the given times, in seconds from the start of the video
+   */
+  async extractFramesAt(filePath: string, timestamps: number[]): Promise<VideoFrame[]> {
+    const workDir = this.ffmpegService.createWorkDir('frames');
+    try {
+      const frames: VideoFrame[] = [];
+      for (const [index, timestamp] of timestamps.entries()) {
+        const framePath = path.join(workDir, `frame_${index}.jpg`);
+        await this.ffmpegService.extractFrame(filePath, timestamp, framePath, MAX_FRAME_DIMENSION);
+        frames.push({
+          timestamp,
+          label: `Frame at ${formatTimestamp(timestamp)}:`,
+          mimeType: 'image/jpeg',
+          data: fs.readFileSync(framePath)
+        });
+      }
+      return frames;
+    } finally {
+      this.ffmpegService.removeWorkDir(workDir);
+    }
+  }
+
+  /**
+   * Evenly spaced frames, each in the middle of its share of the range
+   */
+  private getUniformTimestamps(frameCount: number, start: number, end: number): number[] {
+    const step = (end - start) / frameCount;
+    return Array.from({ length: frameCount }, (_, index) => start + step * (index + 0.5));
+  }
+
+  /**
+   * Frames at scene changes, thinned out evenly when there are more than requested
+   */
+  private async getSceneTimestamps(filePath: string, frameCount: number, start: number, end: number): Promise<number[]> {
+    const changes = await this.ffmpegService.detectSceneChanges(filePath, SCENE_THRESHOLD, start, end);
+
+    // The opening shot is a scene of its own
+    const scenes = [start, ...changes.filter(time => time > start && time < end)];
+    if (scenes.length <= frameCount) {
+      return scenes;
+    }
+
+    const step = scenes.length / frameCount;
+    return Array.from({ length: frameCount }, (_, index) => scenes[Math.floor(index * step)]);
+  }
+}
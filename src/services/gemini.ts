@@ -3,12 +3,44 @@
  */
 
 import { 
+  ApiError,
   GoogleGenAI,
   createUserContent,
-  createPartFromUri
+  createModelContent,
+  createPartFromUri,
+  createPartFromBase64,
+  FinishReason
+} from '@google/genai';
+import type {
+  Content,
+  GenerateContentConfig,
+  GenerateContentResponse,
+  File,
+  HarmBlockThreshold,
+  HarmCategory,
+  Part,
+  VideoMetadata
 } from '@google/genai';
 import { createLogger } from '../utils/logger.js';
-import type { GeminiConfig, GeminiFile, GeminiResponse, CachedFile, ProcessedGeminiFile } from '../types/index.js';
+import { RequestScheduler, QuotaExhaustedError } from './request-scheduler.js';
+import { toGeminiSchema, parseStructuredOutput } from '../utils/structured-output.js';
+import { detectFileFormat } from '../utils/media-formats.js';
+import type {
+  GeminiConfig,
+  GeminiFile,
+  GeminiResponse,
+  LabeledFile,
+  LabeledImage,
+  CachedFile,
+  ConversationTurn,
+  ProcessedGeminiFile,
+  ProcessFileOptions,
+  VideoClip,
+  FileCacheStore,
+  RecognitionProvider,
+  ResponseMetadata,
+  RemoteFileInfo
+} from '../types/index.js';
 import { FileState } from '../types/index.js';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
@@ -16,13 +48,38 @@ import * as crypto from 'node:crypto';
 
 const log = createLogger('GeminiService');
 
-export class GeminiService {
+// Finish reasons that mean the answer was withheld rather than completed
+const BLOCKED_FINISH_REASONS = new Set<string>([
+  FinishReason.SAFETY,
+  FinishReason.RECITATION,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY
+]);
+
+/**
+ * Whether an API error means the file does not exist; the Files API answers 403 rather than 404 for unknown names
+ */
+const isFileNotFound = (error: unknown): boolean => {
+  return error instanceof ApiError && (error.status === 404 || (error.status === 403 && /may not exist/i.test(error.message)));
+};
+
+export class GeminiService implements RecognitionProvider {
   private readonly client: GoogleGenAI;
+  private readonly cacheStore?: FileCacheStore;
+  private readonly scheduler: RequestScheduler;
   private fileCache: Map<string, CachedFile> = new Map();
-  private readonly cacheExpiration = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
+  readonly storageQuotaBytes = 20 * 1024 * 1024 * 1024; // Files API storage limit per project
+  private readonly defaultFileLifetime = 48 * 60 * 60 * 1000; // Gemini keeps uploads for 48 hours
 
-  constructor(config: GeminiConfig) {
+  constructor(config: GeminiConfig, cacheStore?: FileCacheStore) {
     this.client = new GoogleGenAI({ apiKey: config.apiKey });
+    this.cacheStore = cacheStore;
+    this.scheduler = new RequestScheduler({
+      ...(config.maxConcurrency !== undefined && { maxConcurrency: config.maxConcurrency }),
+      ...(config.maxRetries !== undefined && { maxRetries: config.maxRetries })
+    });
     log.info('Initialized Gemini service');
   }
 
@@ -41,16 +98,147 @@ export class GeminiService {
   }
 
   /**
-   * Check if a file exists in cache and is still valid
+   * Look up a cache entry in memory first, then in the persistent store
    */
-  private isCacheValid(checksum: string): boolean {
+  private async lookupCachedFile(checksum: string): Promise<CachedFile | null> {
     const cachedFile = this.fileCache.get(checksum);
-    if (!cachedFile) return false;
+    if (cachedFile) return cachedFile;
+    if (!this.cacheStore) return null;
+    
+    try {
+      const storedFile = await this.cacheStore.getCachedFile(checksum);
+      if (storedFile) {
+        this.fileCache.set(checksum, storedFile);
+      }
+      return storedFile;
+    } catch (error) {
+      log.warn('Failed to read persistent file cache', error);
+      return null;
+    }
+  }
+
+  /**
+   * Remember an uploaded file in memory and in the persistent store
+   */
+  private async cacheFile(checksum: string, file: GeminiFile): Promise<void> {
+    if (!file.name) {
+      throw new Error('File name is required for caching');
+    }
+    
+    const expiresAt = file.expirationTime
+      ? Date.parse(file.expirationTime)
+      : Date.now() + this.defaultFileLifetime;
+    
+    const cachedFile: CachedFile = {
+      fileId: file.name,
+      checksum,
+      uri: file.uri,
+      mimeType: file.mimeType,
+      name: file.name,
+      state: file.state || FileState.ACTIVE,
+      timestamp: Date.now(),
+      expiresAt
+    };
+    
+    this.fileCache.set(checksum, cachedFile);
+    
+    if (this.cacheStore) {
+      try {
+        await this.cacheStore.saveCachedFile(cachedFile);
+      } catch (error) {
+        log.warn('Failed to persist file cache entry', error);
+      }
+    }
+  }
+
+  /**
+   * Drop a cache entry from memory and from the persistent store
+   */
+  private async evictCachedFile(checksum: string): Promise<void> {
+    this.fileCache.delete(checksum);
+    
+    if (this.cacheStore) {
+      try {
+        await this.cacheStore.deleteCachedFile(checksum);
+      } catch (error) {
+        log.warn('Failed to delete persistent file cache entry', error);
+      }
+    }
+  }
+
+  /**
+   * Map remote file names to the checksums of local cache entries that point at them
+   */
+  private async getCachedChecksumsByName(): Promise<Map<string, string>> {
+    const checksums = new Map<string, string>();
+    
+    if (this.cacheStore) {
+      try {
+        for (const cachedFile of await this.cacheStore.listCachedFiles()) {
+          checksums.set(cachedFile.name, cachedFile.checksum);
+        }
+      } catch (error) {
+        log.warn('Failed to read persistent file cache', error);
+      }
+    }
+    for (const cachedFile of this.fileCache.values()) {
+      checksums.set(cachedFile.name, cachedFile.checksum);
+    }
+    
+    return checksums;
+  }
+
+  /**
+   * Return a cached upload after confirming the remote file still exists and is usable.
+   * Entries that are expired, failed or missing remotely are evicted.
+   */
+  async getValidCachedFile(checksum: string): Promise<GeminiFile | null> {
+    const cachedFile = await this.lookupCachedFile(checksum);
+    if (!cachedFile) return null;
+    
+    if (cachedFile.expiresAt && cachedFile.expiresAt <= Date.now()) {
+      log.info(`Cached file expired, evicting: ${cachedFile.name}`);
+      await this.evictCachedFile(checksum);
+      return null;
+    }
+    
+    let remoteFile: GeminiFile;
+    try {
+      remoteFile = await this.getFile(cachedFile.name);
+    } catch (error) {
+      log.info(`Cached file no longer available remotely, evicting: ${cachedFile.name}`);
+      await this.evictCachedFile(checksum);
+      return null;
+    }
+    
+    const remoteExpired = remoteFile.expirationTime && Date.parse(remoteFile.expirationTime) <= Date.now();
+    if (remoteFile.state === FileState.FAILED || remoteExpired) {
+      log.info(`Cached file is ${remoteExpired ? 'expired' : 'failed'} remotely, evicting: ${cachedFile.name}`);
+      await this.evictCachedFile(checksum);
+      return null;
+    }
     
-    const now = Date.now();
-    const isExpired = now - cachedFile.timestamp > this.cacheExpiration;
+    // A restart may have interrupted processing; resume waiting
+    const file = remoteFile.state === FileState.PROCESSING
+      ? await this.waitForVideoProcessing(remoteFile)
+      : remoteFile;
     
-    return !isExpired;
+    if (file.state !== cachedFile.state) {
+      await this.cacheFile(checksum, { ...file, expirationTime: remoteFile.expirationTime });
+    }
+    
+    return file;
+  }
+
+  /**
+   * Convert a clip window in seconds to Gemini video metadata
+   */
+  private toVideoMetadata(clip: VideoClip): VideoMetadata {
+    return {
+      ...(clip.startOffset !== undefined && { startOffset: `${clip.startOffset}s` }),
+      ...(clip.endOffset !== undefined && { endOffset: `${clip.endOffset}s` }),
+      ...(clip.fps !== undefined && { fps: clip.fps })
+    };
   }
 
   /**
@@ -58,7 +246,7 @@ export class GeminiService {
    */
   async getFile(name: string): Promise<GeminiFile> {
     try {
-      const file = await this.client.files.get({ name });
+      const file = await this.scheduler.schedule('files', () => this.client.files.get({ name }));
       log.debug(`Retrieved file details for ${name}`);
       log.verbose('File details', JSON.stringify(file));
       
@@ -70,7 +258,8 @@ export class GeminiService {
         uri: file.uri,
         mimeType: file.mimeType,
         name: file.name,
-        state: file.state?.toString()
+        state: file.state?.toString(),
+        expirationTime: file.expirationTime
       };
     } catch (error) {
       log.error(`Error retrieving file ${name}`, error);
@@ -79,14 +268,101 @@ export class GeminiService {
   }
 
   /**
-   * Wait for a video file to be processed
+   * Convert an API file record into remote file details
+   */
+  private toRemoteFileInfo(file: File, cachedChecksum?: string): RemoteFileInfo {
+    return {
+      name: file.name ?? '',
+      displayName: file.displayName,
+      uri: file.uri,
+      mimeType: file.mimeType,
+      sizeBytes: file.sizeBytes !== undefined ? Number(file.sizeBytes) : undefined,
+      state: file.state?.toString(),
+      createTime: file.createTime,
+      expirationTime: file.expirationTime,
+      ...(cachedChecksum && { cachedChecksum })
+    };
+  }
+
+  /**
+   * Accept both "files/abc123" and "abc123"
+   */
+  private normalizeFileName(name: string): string {
+    return name.startsWith('files/') ? name : `files/${name}`;
+  }
+
+  /**
+   * List all files uploaded to the project
+   */
+  async listFiles(): Promise<RemoteFileInfo[]> {
+    try {
+      const pager = await this.scheduler.schedule('files', () => this.client.files.list({ config: { pageSize: 100 } }));
+      const files = [...pager.page];
+      
+      while (pager.hasNextPage()) {
+        files.push(...await this.scheduler.schedule('files', () => pager.nextPage()));
+      }
+      
+      const checksums = await this.getCachedChecksumsByName();
+      log.debug(`Listed ${files.length} remote files`);
+      
+      return files.map(file => this.toRemoteFileInfo(file, file.name ? checksums.get(file.name) : undefined));
+    } catch (error) {
+      log.error('Error listing files', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get full details of a remote file
+   */
+  async describeFile(name: string): Promise<RemoteFileInfo> {
+    const fileName = this.normalizeFileName(name);
+    
+    try {
+      const file = await this.scheduler.schedule('files', () => this.client.files.get({ name: fileName }));
+      const checksums = await this.getCachedChecksumsByName();
+      
+      return this.toRemoteFileInfo(file, checksums.get(fileName));
+    } catch (error) {
+      log.error(`Error describing file ${fileName}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a remote file and evict any cache entries pointing at it, also when the file is already gone
+   */
+  async deleteFile(name: string): Promise<void> {
+    const fileName = this.normalizeFileName(name);
+    
+    try {
+      await this.scheduler.schedule('files', () => this.client.files.delete({ name: fileName }));
+      log.info(`Deleted remote file: ${fileName}`);
+    } catch (error) {
+      if (!isFileNotFound(error)) {
+        log.error(`Error deleting file ${fileName}`, error);
+        throw error;
+      }
+      log.info(`Remote file was already deleted: ${fileName}`);
+    }
+    
+    const checksum = (await this.getCachedChecksumsByName()).get(fileName);
+    if (checksum) {
+      await this.evictCachedFile(checksum);
+      log.info(`Evicted cache entry for deleted file: ${fileName}`);
+    }
+  }
+
+  /**
+   * Wait for an uploaded video or document to be processed
    */
   async waitForVideoProcessing(file: GeminiFile, maxWaitTimeMs = 300000): Promise<ProcessedGeminiFile> {
     if (!file.name) {
       throw new Error('File name is required to check processing status');
     }
 
-    log.info(`Waiting for video processing: ${file.name}`);
+    log.info(`Waiting for file processing: ${file.name}`);
     
     const startTime = Date.now();
     let currentFile = file;
@@ -94,7 +370,7 @@ export class GeminiService {
     while (currentFile.state === FileState.PROCESSING) {
       // Check if we've exceeded the maximum wait time
       if (Date.now() - startTime > maxWaitTimeMs) {
-        throw new Error(`Timeout waiting for video processing: ${file.name}`);
+        throw new Error(`Timeout waiting for file processing: ${file.name}`);
       }
       
       // Wait 2 seconds before checking again
@@ -102,14 +378,14 @@ export class GeminiService {
       
       // Get updated file status
       currentFile = await this.getFile(file.name);
-      log.debug(`Video processing status: ${currentFile.state}`);
+      log.debug(`File processing status: ${currentFile.state}`);
       
       if (currentFile.state === FileState.FAILED) {
-        throw new Error(`Video processing failed: ${file.name}`);
+        throw new Error(`File processing failed: ${file.name}`);
       }
     }
     
-    log.info(`Video processing completed: ${file.name}`);
+    log.info(`File processing completed: ${file.name}`);
     
     // Ensure all required fields are present
     if (!currentFile.name || !currentFile.state) {
@@ -125,59 +401,36 @@ export class GeminiService {
   }
 
   /**
-   * Upload a file to Gemini API with caching
+   * Upload a file to Gemini API with caching. A known MD5 checksum skips re-reading the file.
    */
-  async uploadFile(filePath: string): Promise<GeminiFile> {
+  async uploadFile(filePath: string, knownChecksum?: string): Promise<GeminiFile> {
     try {
       log.debug(`Processing file upload request: ${filePath}`);
       
       // Calculate checksum for caching
-      const checksum = await this.calculateChecksum(filePath);
+      const checksum = knownChecksum ?? await this.calculateChecksum(filePath);
       log.debug(`File checksum: ${checksum}`);
       
-      // Check if file is in cache and still valid
-      if (this.isCacheValid(checksum)) {
-        const cachedFile = this.fileCache.get(checksum)!;
+      // Reuse a previous upload if it is still valid remotely
+      const cachedFile = await this.getValidCachedFile(checksum);
+      if (cachedFile) {
         log.info(`Using cached file: ${cachedFile.name}`);
-        
-        // Return cached file info
-        return {
-          uri: cachedFile.uri,
-          mimeType: cachedFile.mimeType,
-          name: cachedFile.name,
-          state: cachedFile.state
-        };
+        return cachedFile;
       }
       
-      // Determine MIME type based on file extension
-      const ext = path.extname(filePath).toLowerCase();
-      let mimeType: string;
-      let isVideo = false;
-      
-      if (['.jpg', '.jpeg'].includes(ext)) {
-        mimeType = 'image/jpeg';
-      } else if (ext === '.png') {
-        mimeType = 'image/png';
-      } else if (ext === '.webp') {
-        mimeType = 'image/webp';
-      } else if (ext === '.mp4') {
-        mimeType = 'video/mp4';
-        isVideo = true;
-      } else if (ext === '.mp3') {
-        mimeType = 'audio/mp3';
-      } else if (ext === '.wav') {
-        mimeType = 'audio/wav';
-      } else if (ext === '.ogg') {
-        mimeType = 'audio/ogg';
-      } else {
-        throw new Error(`Unsupported file extension: ${ext}`);
+      // Determine MIME type from the file content, falling back to its extension
+      const format = detectFileFormat(filePath);
+      if (!format) {
+        throw new Error(`Unsupported file format: ${path.basename(filePath)}`);
       }
+      const mimeType = format.mimeType;
+      const needsProcessing = format.category === 'video' || format.category === 'document';
       
       // Upload file to Google's servers
-      const uploadedFile = await this.client.files.upload({
+      const uploadedFile = await this.scheduler.schedule('upload', () => this.client.files.upload({
         file: filePath,
         config: { mimeType }
-      });
+      }));
       
       log.info(`File uploaded successfully: ${filePath}`);
       log.verbose('Uploaded file details', JSON.stringify(uploadedFile));
@@ -191,41 +444,22 @@ export class GeminiService {
         uri: uploadedFile.uri,
         mimeType,
         name: uploadedFile.name,
-        state: uploadedFile.state?.toString()
+        state: uploadedFile.state?.toString(),
+        expirationTime: uploadedFile.expirationTime
       };
       
-      // For videos, wait for processing to complete
-      if (isVideo && file.state === FileState.PROCESSING) {
+      // Videos and documents are processed before they can be used
+      if (needsProcessing && file.state === FileState.PROCESSING) {
         const processedFile = await this.waitForVideoProcessing(file);
         
         // Update cache with processed file
-        this.fileCache.set(checksum, {
-          fileId: processedFile.name!,
-          checksum,
-          uri: processedFile.uri,
-          mimeType: processedFile.mimeType,
-          name: processedFile.name!,
-          state: processedFile.state!,
-          timestamp: Date.now()
-        });
+        await this.cacheFile(checksum, { ...processedFile, expirationTime: file.expirationTime });
         
         return processedFile;
       }
       
       // Add to cache
-      if (!file.name) {
-        throw new Error('File name is required for caching');
-      }
-      
-      this.fileCache.set(checksum, {
-        fileId: file.name,
-        checksum,
-        uri: file.uri,
-        mimeType: file.mimeType,
-        name: file.name,
-        state: file.state || FileState.ACTIVE,
-        timestamp: Date.now()
-      });
+      await this.cacheFile(checksum, file);
       
       return file;
     } catch (error) {
@@ -235,34 +469,283 @@ export class GeminiService {
   }
 
   /**
-   * Process a file with Gemini API
+   * Build the request contents for a file and prompt
+   */
+  private buildContents(file: GeminiFile, prompt: string, options: ProcessFileOptions): Content[] {
+    const filePart = createPartFromUri(file.uri, file.mimeType);
+    if (options.videoClip) {
+      filePart.videoMetadata = this.toVideoMetadata(options.videoClip);
+    }
+    
+    return this.withHistory([filePart], prompt, options.history);
+  }
+
+  /**
+   * Replay earlier turns so the answer builds on them; the media parts go with the first user turn
    */
-  async processFile(file: GeminiFile, prompt: string, modelName: string): Promise<GeminiResponse> {
+  private withHistory(mediaParts: Part[], prompt: string, history: ConversationTurn[] = []): Content[] {
+    if (history.length === 0) {
+      return [createUserContent([...mediaParts, prompt])];
+    }
+    
+    const contents = history.map((turn, index) => index === 0
+      ? createUserContent([...mediaParts, turn.text])
+      : turn.role === 'user' ? createUserContent(turn.text) : createModelContent(turn.text)
+    );
+    contents.push(createUserContent(prompt));
+    return contents;
+  }
+
+  /**
+   * Build a single request with each uploaded file preceded by its label
+   */
+  private buildFileContents(files: LabeledFile[], prompt: string): Content[] {
+    const parts = files.flatMap(({ label, file, videoClip }) => {
+      const filePart = createPartFromUri(file.uri, file.mimeType);
+      if (videoClip) {
+        filePart.videoMetadata = this.toVideoMetadata(videoClip);
+      }
+      return [{ text: label }, filePart];
+    });
+    return [createUserContent([...parts, prompt])];
+  }
+
+  /**
+   * Build a single request with each image preceded by its label
+   */
+  private buildImageContents(images: LabeledImage[], prompt: string, history?: ConversationTurn[]): Content[] {
+    const parts = images.flatMap(image => [
+      { text: image.label },
+      createPartFromBase64(image.data.toString('base64'), image.mimeType)
+    ]);
+    return this.withHistory(parts, prompt, history);
+  }
+
+  /**
+   * Build the generation config from caller settings and the requested response schema
+   */
+  private buildConfig(options: ProcessFileOptions): GenerateContentConfig | undefined {
+    const generation = options.generation ?? {};
+    
+    const config: GenerateContentConfig = {
+      ...(generation.systemInstruction !== undefined && { systemInstruction: generation.systemInstruction }),
+      ...(generation.temperature !== undefined && { temperature: generation.temperature }),
+      ...(generation.topP !== undefined && { topP: generation.topP }),
+      ...(generation.maxOutputTokens !== undefined && { maxOutputTokens: generation.maxOutputTokens }),
+      ...(generation.thinkingBudget !== undefined && {
+        thinkingConfig: { thinkingBudget: generation.thinkingBudget }
+      }),
+      ...(generation.safetySettings && {
+        safetySettings: Object.entries(generation.safetySettings).map(([category, threshold]) => ({
+          category: `HARM_CATEGORY_${category.toUpperCase()}` as HarmCategory,
+          threshold: threshold as HarmBlockThreshold
+        }))
+      }),
+      ...(options.responseSchema && {
+        responseMimeType: 'application/json',
+        responseSchema: toGeminiSchema(options.responseSchema)
+      })
+    };
+    
+    return Object.keys(config).length > 0 ? config : undefined;
+  }
+
+  /**
+   * Collect token usage, finish reason and safety information from a response
+   */
+  private extractMetadata(response: GenerateContentResponse): ResponseMetadata {
+    const usage = response.usageMetadata;
+    const candidate = response.candidates?.[0];
+    const feedback = response.promptFeedback;
+    const safetyRatings = candidate?.safetyRatings ?? feedback?.safetyRatings;
+    
+    return {
+      ...(usage && {
+        usage: {
+          promptTokens: usage.promptTokenCount,
+          outputTokens: usage.candidatesTokenCount,
+          thoughtsTokens: usage.thoughtsTokenCount,
+          cachedTokens: usage.cachedContentTokenCount,
+          totalTokens: usage.totalTokenCount
+        }
+      }),
+      ...(candidate?.finishReason && { finishReason: candidate.finishReason }),
+      ...(candidate?.finishMessage && { finishMessage: candidate.finishMessage }),
+      ...(feedback?.blockReason && { blockReason: feedback.blockReason }),
+      ...(feedback?.blockReasonMessage && { blockReasonMessage: feedback.blockReasonMessage }),
+      ...(safetyRatings && {
+        safetyRatings: safetyRatings.map(rating => ({
+          category: rating.category ?? 'HARM_CATEGORY_UNSPECIFIED',
+          probability: rating.probability,
+          severity: rating.severity,
+          blocked: rating.blocked
+        }))
+      })
+    };
+  }
+
+  /**
+   * Count the input tokens a request would use without generating content
+   */
+  async countTokens(
+    file: GeminiFile,
+    prompt: string,
+    modelName: string,
+    options: ProcessFileOptions = {}
+  ): Promise<number> {
+    try {
+      const response = await this.scheduler.schedule(modelName, () => this.client.models.countTokens({
+        model: modelName,
+        contents: this.buildContents(file, prompt, options)
+      }));
+      
+      log.debug(`Counted ${response.totalTokens} input tokens for model ${modelName}`);
+      return response.totalTokens ?? 0;
+    } catch (error) {
+      log.error('Error counting tokens with Gemini API', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Count the input tokens of an inline image request
+   */
+  async countImageTokens(images: LabeledImage[], prompt: string, modelName: string): Promise<number> {
     try {
-      log.debug(`Processing file with model ${modelName}`);
-      log.verbose('Processing with parameters', JSON.stringify({ file, prompt, modelName }));
+      const response = await this.scheduler.schedule(modelName, () => this.client.models.countTokens({
+        model: modelName,
+        contents: this.buildImageContents(images, prompt)
+      }));
       
-      const response = await this.client.models.generateContent({
+      log.debug(`Counted ${response.totalTokens} input tokens for ${images.length} images`);
+      return response.totalTokens ?? 0;
+    } catch (error) {
+      log.error('Error counting tokens with Gemini API', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Process a file with Gemini API
+   */
+  async processFile(
+    file: GeminiFile,
+    prompt: string,
+    modelName: string,
+    options: ProcessFileOptions = {}
+  ): Promise<GeminiResponse> {
+    log.debug(`Processing file with model ${modelName}`);
+    log.verbose('Processing with parameters', JSON.stringify({ file, prompt, modelName, options }));
+    
+    return this.generate(this.buildContents(file, prompt, options), modelName, options);
+  }
+
+  /**
+   * Generate an answer from a text-only prompt, e.g. to combine earlier answers
+   */
+  async processText(
+    prompt: string,
+    modelName: string,
+    options: ProcessFileOptions = {}
+  ): Promise<GeminiResponse> {
+    log.debug(`Processing text prompt with model ${modelName}`);
+    
+    return this.generate(this.withHistory([], prompt, options.history), modelName, options);
+  }
+
+  /**
+   * Generate an answer about images sent inline with the request
+   */
+  async processImages(
+    images: LabeledImage[],
+    prompt: string,
+    modelName: string,
+    options: ProcessFileOptions = {}
+  ): Promise<GeminiResponse> {
+    log.debug(`Processing ${images.length} inline images with model ${modelName}`);
+    
+    return this.generate(this.buildImageContents(images, prompt, options.history), modelName, options);
+  }
+
+  /**
+   * Process several uploaded files in one request, each introduced by its label
+   */
+  async processFiles(
+    files: LabeledFile[],
+    prompt: string,
+    modelName: string,
+    options: ProcessFileOptions = {}
+  ): Promise<GeminiResponse> {
+    log.debug(`Processing ${files.length} files with model ${modelName}`);
+    log.verbose('Processing with parameters', JSON.stringify({ files, prompt, modelName, options }));
+    
+    return this.generate(this.buildFileContents(files, prompt), modelName, options);
+  }
+
+  /**
+   * Run generateContent and turn the response into a checked result
+   */
+  private async generate(
+    contents: Content[],
+    modelName: string,
+    options: ProcessFileOptions
+  ): Promise<GeminiResponse> {
+    try {
+      const response = await this.scheduler.schedule(modelName, () => this.client.models.generateContent({
         model: modelName,
-        contents: createUserContent([
-          createPartFromUri(file.uri, file.mimeType),
-          prompt
-        ])
-      });
+        contents,
+        config: this.buildConfig(options)
+      }));
       
       log.debug('Received response from Gemini API');
       log.verbose('Gemini API response', JSON.stringify(response));
       
       const responseText = response.text || '';
+      const metadata = this.extractMetadata(response);
+      
+      // Blocked answers must not look like short normal answers
+      const blockReason = metadata.blockReason
+        ?? (metadata.finishReason && BLOCKED_FINISH_REASONS.has(metadata.finishReason) ? metadata.finishReason : undefined);
+      if (blockReason) {
+        const detail = metadata.blockReasonMessage || metadata.finishMessage;
+        log.warn(`Response blocked: ${blockReason}`);
+        return {
+          text: `Response blocked by Gemini: ${blockReason}${detail ? ` (${detail})` : ''}`,
+          metadata,
+          isError: true,
+          errorType: 'blocked'
+        };
+      }
+      
+      // Validate schema-constrained output before handing it back
+      if (options.responseSchema) {
+        try {
+          const data = parseStructuredOutput(responseText, options.responseSchema);
+          return {
+            text: responseText,
+            data,
+            metadata
+          };
+        } catch (error) {
+          const truncated = metadata.finishReason === FinishReason.MAX_TOKENS ? ' (response was truncated at maxOutputTokens)' : '';
+          return {
+            text: `Error processing file: ${error instanceof Error ? error.message : String(error)}${truncated}`,
+            metadata,
+            isError: true
+          };
+        }
+      }
       
       return {
-        text: responseText
+        text: responseText,
+        metadata
       };
     } catch (error) {
       log.error('Error processing file with Gemini API', error);
       return {
         text: `Error processing file: ${error instanceof Error ? error.message : String(error)}`,
-        isError: true
+        isError: true,
+        ...(error instanceof QuotaExhaustedError && { errorType: 'quota_exhausted' as const })
       };
     }
   }
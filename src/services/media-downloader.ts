@@ -3,65 +3,145 @@
  */
 
 import axios from 'axios';
+import type { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
 import * as fs from 'node:fs';
+import * as http from 'node:http';
+import * as https from 'node:https';
 import * as path from 'node:path';
 import * as os from 'node:os';
 import * as crypto from 'node:crypto';
-import mime from 'mime-types';
+import type { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
 import { createLogger } from '../utils/logger.js';
+import { FfmpegService } from './ffmpeg.js';
+import { RequestProfiles } from './request-profiles.js';
+import { UrlPolicy, findUrlPolicyError } from './url-policy.js';
+import { SNIFF_LENGTH, detectFormat, getFormatByExtension, getFormatByMimeType, getSupportedExtensions } from '../utils/media-formats.js';
+import { findEmbeddedMedia, isHtmlPage } from '../utils/html-media.js';
+import { detectManifest, limitSegments, parseDashManifest, parseHlsMediaPlaylist, parseHlsPlaylist, selectVariant } from '../utils/manifests.js';
+import type { MediaCategory, MediaFormat } from '../utils/media-formats.js';
+import type { SegmentList, TrackSource } from '../utils/manifests.js';
+import type { RemuxInput } from './ffmpeg.js';
+import type { RequestStrategy } from './request-profiles.js';
+import type { StreamIngest, StreamOptions, StreamProtocol, UrlPolicyConfig } from '../types/index.js';
 
 const log = createLogger('MediaDownloaderService');
 
+// Redirects followed before a request fails
+const MAX_REDIRECTS = 5;
+
+// Times an interrupted transfer is continued with a Range request before giving up
+const MAX_RESUME_ATTEMPTS = 3;
+
+// Web pages and streaming manifests are read up to this many bytes
+const MAX_TEXT_BYTES = 2 * 1024 * 1024;
+
+// Embedded media URLs tried, best first, before giving up on a page
+const MAX_PAGE_CANDIDATES = 3;
+
+// Stream segments fetched at the same time
+const MAX_SEGMENT_CONCURRENCY = 4;
+
+// Streams are ingested at no more than 720p unless the caller asks otherwise; Gemini samples video at low resolution
+const DEFAULT_STREAM_MAX_HEIGHT = 720;
+
+export interface DownloadOptions {
+  mediaTypes?: MediaCategory[];  // Categories the caller accepts, in order of preference, used to pick media from web pages
+  stream?: StreamOptions;        // Variant limits and duration cap for HLS and DASH URLs
+}
+
 export interface DownloadResult {
   filepath: string;
   filename: string;
   mimeType: string;
-  fileData: Buffer;
   fileSize: number;
+  checksum: string;  // MD5 of the content, the key used by the upload cache
+  resolvedUrl?: string;  // Direct media URL when the requested URL was a web page
+  stream?: StreamIngest;  // Set when the media was ingested from an HLS or DASH URL
+}
+
+/**
+ * What was learned while streaming a response body to disk
+ */
+interface StreamedBody {
+  size: number;
+  checksum: string;
+  head: Buffer;
+  contentType?: string;
+  finalUrl: string;  // URL after redirects
 }
 
+class FileTooLargeError extends Error {
+  constructor(size: number, maxFileSize: number) {
+    super(`File too large: ${size} bytes (max: ${maxFileSize} bytes)`);
+    this.name = 'FileTooLargeError';
+  }
+}
+
+/**
+ * Read a response header as a plain string
+ */
+const headerValue = (value: unknown): string | undefined => {
+  return value === undefined || value === null ? undefined : String(value);
+};
+
 export class MediaDownloaderService {
   private tempDir: string;
   private maxFileSize: number;
-  private supportedMimeTypes: Set<string>;
-
-  constructor(maxFileSize: number = 100 * 1024 * 1024) { // Default 100MB
+  private urlPolicy: UrlPolicy;
+  private http: AxiosInstance;
+  private proxyAgents: { httpAgent: http.Agent; httpsAgent: https.Agent };
+  private ffmpegService: FfmpegService;
+  private requestProfiles: RequestProfiles;
+
+  constructor(
+    ffmpegService: FfmpegService,
+    requestProfiles: RequestProfiles,
+    urlPolicyConfig: UrlPolicyConfig = {},
+    maxFileSize: number = 100 * 1024 * 1024 // Default 100MB
+  ) {
+    this.ffmpegService = ffmpegService;
+    this.requestProfiles = requestProfiles;
     this.maxFileSize = maxFileSize;
     this.tempDir = path.join(os.tmpdir(), 'mcp-video-recognition');
     
+    // Every connection resolves through the policy and every redirect target is re-checked
+    this.urlPolicy = new UrlPolicy(urlPolicyConfig);
+    this.http = axios.create({
+      ...this.urlPolicy.createAgents(),
+      maxRedirects: MAX_REDIRECTS,
+      beforeRedirect: options => this.urlPolicy.checkUrl(options.href)
+    });
+    
+    // Connections to a profile proxy skip the address check, as the proxy resolves the target; the target and every redirect are resolved and checked here instead
+    this.proxyAgents = { httpAgent: new http.Agent(), httpsAgent: new https.Agent() };
+    this.http.interceptors.request.use(async config => {
+      if (config.proxy && config.url) {
+        await this.urlPolicy.checkResolvedUrl(config.url);
+      }
+      return config;
+    });
+    this.http.interceptors.response.use(undefined, error => this.followProxiedRedirect(error));
+    
     // Ensure temp directory exists
     if (!fs.existsSync(this.tempDir)) {
       fs.mkdirSync(this.tempDir, { recursive: true });
     }
-
-    // Supported MIME types
-    this.supportedMimeTypes = new Set([
-      // Images
-      'image/jpeg',
-      'image/jpg',
-      'image/png',
-      'image/gif',
-      'image/webp',
-      'image/bmp',
-      // Videos
-      'video/mp4',
-      'video/mpeg',
-      'video/quicktime',
-      'video/x-msvideo',
-      'video/webm',
-      'video/ogg'
-    ]);
   }
 
   /**
    * Download media from URL
    */
-  async downloadMedia(url: string): Promise<DownloadResult> {
+  async downloadMedia(url: string, options: DownloadOptions = {}): Promise<DownloadResult> {
     try {
       log.info(`Starting download from URL: ${url}`);
 
-      return await this.downloadWithRetry(url);
+      return await this.downloadWithRetry(url, options, true);
     } catch (error) {
+      const policyError = findUrlPolicyError(error);
+      if (policyError) {
+        throw policyError;
+      }
       if (axios.isAxiosError(error)) {
         if (error.response) {
           throw new Error(`Download failed with status ${error.response.status}: ${error.response.statusText}`);
@@ -76,153 +156,79 @@ export class MediaDownloaderService {
   }
 
   /**
-   * Get appropriate header strategies based on URL
+   * Download with retry logic and different header strategies. Web pages are searched for embedded media when resolvePages is set.
    */
-  private getStrategiesForUrl(url: string): Record<string, string>[] {
-    const isFacebookUrl = url.includes('fbcdn.net') || url.includes('facebook.com');
-    const isInstagramUrl = url.includes('cdninstagram.com') || url.includes('instagram.com');
-    const isTwitterUrl = url.includes('twimg.com') || url.includes('twitter.com') || url.includes('x.com');
-
-    if (isFacebookUrl) {
-      return [
-        // Facebook-specific strategy
-        {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8,application/signed-exchange;v=b3;q=0.7',
-          'Accept-Language': 'en-US,en;q=0.9',
-          'Accept-Encoding': 'gzip, deflate, br',
-          'Referer': 'https://www.facebook.com/',
-          'Origin': 'https://www.facebook.com',
-          'DNT': '1',
-          'Connection': 'keep-alive',
-          'Upgrade-Insecure-Requests': '1',
-          'Sec-Fetch-Dest': 'video',
-          'Sec-Fetch-Mode': 'no-cors',
-          'Sec-Fetch-Site': 'cross-site'
-        },
-        // Fallback Chrome strategy
-        {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-          'Accept': '*/*',
-          'Accept-Language': 'en-US,en;q=0.9',
-          'Referer': 'https://www.facebook.com/'
-        }
-      ];
-    }
-
-    if (isInstagramUrl) {
-      return [
-        {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-          'Accept': '*/*',
-          'Accept-Language': 'en-US,en;q=0.9',
-          'Referer': 'https://www.instagram.com/',
-          'Origin': 'https://www.instagram.com'
-        }
-      ];
-    }
-
-    // Default strategies for other URLs
-    return [
-      // Strategy 1: Chrome-like headers
-      {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.9',
-        'Accept-Encoding': 'gzip, deflate, br',
-        'DNT': '1',
-        'Connection': 'keep-alive',
-        'Upgrade-Insecure-Requests': '1'
-      },
-      // Strategy 2: Firefox-like headers
-      {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:109.0) Gecko/20100101 Firefox/121.0',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.5',
-        'Accept-Encoding': 'gzip, deflate, br',
-        'DNT': '1',
-        'Connection': 'keep-alive',
-        'Upgrade-Insecure-Requests': '1'
-      },
-      // Strategy 3: Simple bot-friendly headers
-      {
-        'User-Agent': 'MCP-Video-Recognition/1.0 (+https://github.com/mario-andreschak/mcp_video_recognition)',
-        'Accept': '*/*'
-      }
-    ];
-  }
-
-  /**
-   * Download with retry logic and different header strategies
-   */
-  private async downloadWithRetry(url: string): Promise<DownloadResult> {
-    const strategies = this.getStrategiesForUrl(url);
+  private async downloadWithRetry(url: string, options: DownloadOptions, resolvePages: boolean): Promise<DownloadResult> {
+    this.urlPolicy.checkUrl(url);
+    const strategies = this.requestProfiles.getStrategies(url);
 
     let lastError: Error | null = null;
 
     for (let i = 0; i < strategies.length; i++) {
       try {
-        const headers = strategies[i];
-        log.info(`Trying download strategy ${i + 1}/${strategies.length}`);
+        const strategy = strategies[i];
+        log.info(`Trying download strategy ${i + 1}/${strategies.length} of profile ${strategy.profile}`);
 
         // Try HEAD request first to check content type and size (optional)
         let contentType: string | undefined;
-        let contentLength = 0;
         
         try {
-          const headResponse = await axios.head(url, {
-            timeout: 10000,
-            maxRedirects: 5,
-            headers
-          });
-          contentType = headResponse.headers['content-type'];
-          contentLength = parseInt(headResponse.headers['content-length'] || '0');
+          const headResponse = await this.http.head(url, this.requestOptions(strategy, 10000));
+          contentType = headerValue(headResponse.headers['content-type']);
+          const contentLength = parseInt(headerValue(headResponse.headers['content-length']) || '0');
+          if (contentLength > this.maxFileSize) {
+            throw new FileTooLargeError(contentLength, this.maxFileSize);
+          }
         } catch (headError) {
+          if (headError instanceof FileTooLargeError || findUrlPolicyError(headError)) throw headError;
           log.warn('HEAD request failed, proceeding with GET request');
         }
 
-        // Download the file
-        const response = await axios.get(url, {
-          responseType: 'arraybuffer',
-          timeout: 60000, // Increased timeout
-          maxRedirects: 5,
-          maxContentLength: this.maxFileSize,
-          headers
-        });
-
-        // Get content type from response if HEAD request failed
-        if (!contentType) {
-          contentType = response.headers['content-type'];
-        }
-
-        // Validate content type
-        if (contentType && !this.isSupported(contentType)) {
-          throw new Error(`Unsupported media type: ${contentType}`);
-        }
-
-        const fileData = Buffer.from(response.data);
-        
-        // Check file size
-        if (fileData.length > this.maxFileSize) {
-          throw new Error(`File too large: ${fileData.length} bytes (max: ${this.maxFileSize} bytes)`);
+        // Stream the body to a partial file; it is renamed once the format is known
+        const partPath = path.join(this.tempDir, `${crypto.randomBytes(4).toString('hex')}.part`);
+        try {
+          const body = await this.streamToFile(url, strategy, partPath);
+          
+          // Get content type from response if HEAD request failed
+          contentType = contentType ?? body.contentType;
+          
+          // A streaming manifest: fetch its segments and remux them into one MP4
+          const protocol = detectManifest(contentType, body.head, body.finalUrl);
+          if (protocol) {
+            return await this.downloadStream(protocol, body.finalUrl, this.readText(partPath, body.size), strategy, options);
+          }
+          
+          // A web page instead of media: download what it embeds
+          if (!detectFormat(body.head) && isHtmlPage(contentType, body.head)) {
+            if (!resolvePages) {
+              throw new Error(`Embedded media URL is another web page: ${url}`);
+            }
+            return await this.downloadFromPage(body.finalUrl, this.readText(partPath, body.size), options);
+          }
+          
+          // Detect the format from content, then the declared type, then the URL extension
+          const format = this.detectDownloadFormat(url, body.head, contentType);
+          if (!format) {
+            throw new Error(`Unsupported media type: ${contentType || 'unknown'}`);
+          }
+          
+          // Generate filename from URL or use random name
+          const filename = this.generateFilename(url, format);
+          const filepath = path.join(this.tempDir, filename);
+          fs.renameSync(partPath, filepath);
+          
+          log.info(`Downloaded successfully: ${filename} (${body.size} bytes)`);
+          
+          return {
+            filepath,
+            filename,
+            mimeType: format.mimeType,
+            fileSize: body.size,
+            checksum: body.checksum
+          };
+        } finally {
+          this.cleanupTempFile(partPath);
         }
-
-        // Generate filename from URL or use random name
-        const filename = this.generateFilename(url, contentType || 'application/octet-stream');
-        const filepath = path.join(this.tempDir, filename);
-
-        // Save to temp file
-        fs.writeFileSync(filepath, fileData);
-
-        log.info(`Downloaded successfully: ${filename} (${fileData.length} bytes)`);
-
-        return {
-          filepath,
-          filename,
-          mimeType: contentType || 'application/octet-stream',
-          fileData,
-          fileSize: fileData.length
-        };
       } catch (error) {
         lastError = error as Error;
         log.warn(`Strategy ${i + 1} failed: ${lastError.message}`);
@@ -244,27 +250,354 @@ export class MediaDownloaderService {
     throw lastError || new Error('All download strategies failed');
   }
 
+  /**
+   * Stream a response body to disk, enforcing the size limit and hashing as it arrives.
+   * Interrupted transfers resume with a Range request when the server supports it.
+   * Parts of one download pass the same received counter so the limit covers them together.
+   */
+  private async streamToFile(
+    url: string,
+    strategy: RequestStrategy,
+    filePath: string,
+    received: { bytes: number } = { bytes: 0 }
+  ): Promise<StreamedBody> {
+    let size = 0;
+    let hash = crypto.createHash('md5');
+    let head = Buffer.alloc(0);
+    let contentType: string | undefined;
+    let validator: string | undefined;
+    let resumable = false;
+    let finalUrl = url;
+
+    for (let attempt = 0; ; attempt++) {
+      const resuming = size > 0;
+
+      try {
+        const response = await this.http.get<Readable>(url, {
+          ...this.requestOptions(strategy, 60000),
+          responseType: 'stream',
+          ...(resuming && {
+            headers: {
+              ...strategy.headers,
+              'Accept-Encoding': 'identity',
+              'Range': `bytes=${size}-`,
+              ...(validator && { 'If-Range': validator })
+            }
+          })
+        });
+
+        const contentRange = headerValue(response.headers['content-range']);
+        const continued = resuming && response.status === 206;
+        if (continued && !contentRange?.startsWith(`bytes ${size}-`)) {
+          response.data.destroy();
+          throw new Error(`Unexpected Content-Range when resuming: ${contentRange}`);
+        }
+
+        // A full response starts the file over, including after a resume the server did not honour
+        if (!continued) {
+          if (resuming) {
+            log.warn('Server sent the whole file instead of the requested range, restarting download');
+          }
+          received.bytes -= size;
+          size = 0;
+          hash = crypto.createHash('md5');
+          head = Buffer.alloc(0);
+          contentType = headerValue(response.headers['content-type']);
+          finalUrl = (response.request as { res?: { responseUrl?: string } } | undefined)?.res?.responseUrl ?? response.config.url ?? url;
+          validator = headerValue(response.headers['etag']) ?? headerValue(response.headers['last-modified']);
+          // Byte offsets only line up when the body is not re-encoded in transit
+          resumable = headerValue(response.headers['accept-ranges']) === 'bytes' && !response.headers['content-encoding'];
+
+          const contentLength = parseInt(headerValue(response.headers['content-length']) || '0');
+          if (received.bytes + contentLength > this.maxFileSize) {
+            response.data.destroy();
+            throw new FileTooLargeError(received.bytes + contentLength, this.maxFileSize);
+          }
+        }
+
+        const file = await fs.promises.open(filePath, continued ? 'a' : 'w');
+        try {
+          for await (const chunk of response.data as AsyncIterable<Buffer>) {
+            if (received.bytes + chunk.length > this.maxFileSize) {
+              throw new FileTooLargeError(received.bytes + chunk.length, this.maxFileSize);
+            }
+            await file.write(chunk);
+
+            // Only bytes already on disk count, so a resume continues exactly where the file ends
+            size += chunk.length;
+            received.bytes += chunk.length;
+            hash.update(chunk);
+            if (head.length < SNIFF_LENGTH) {
+              head = Buffer.concat([head, chunk.subarray(0, SNIFF_LENGTH - head.length)]);
+            }
+          }
+        } finally {
+          await file.close();
+        }
+
+        return { size, checksum: hash.digest('hex'), head, contentType, finalUrl };
+      } catch (error) {
+        const canResume = size > 0 && resumable && attempt < MAX_RESUME_ATTEMPTS &&
+          !(error instanceof FileTooLargeError) && !findUrlPolicyError(error);
+        if (!canResume) {
+          throw error;
+        }
+        log.warn(`Download interrupted after ${size} bytes, resuming (${attempt + 1}/${MAX_RESUME_ATTEMPTS}): ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  /**
+   * Download the best media embedded in a web page, trying the next candidate when one fails
+   */
+  private async downloadFromPage(pageUrl: string, html: string, options: DownloadOptions): Promise<DownloadResult> {
+    const wanted = options.mediaTypes?.join(' or ') || 'media';
+    const candidates = findEmbeddedMedia(html, pageUrl, options.mediaTypes);
+    if (candidates.length === 0) {
+      throw new Error(`URL is a web page without embedded ${wanted}: ${pageUrl}`);
+    }
+    log.info(`Found ${candidates.length} embedded media candidates on ${pageUrl}`);
+
+    let lastError: unknown;
+    for (const candidate of candidates.slice(0, MAX_PAGE_CANDIDATES)) {
+      try {
+        log.info(`Downloading ${candidate.source} media: ${candidate.url}`);
+        const result = await this.downloadWithRetry(candidate.url, options, false);
+        
+        // The declared type can be wrong, so check what actually arrived
+        const category = getFormatByMimeType(result.mimeType)?.category;
+        if (options.mediaTypes && (!category || !options.mediaTypes.includes(category))) {
+          this.cleanupTempFile(result.filepath);
+          throw new Error(`Embedded media is ${result.mimeType}, not ${wanted}`);
+        }
+        
+        return { ...result, resolvedUrl: candidate.url };
+      } catch (error) {
+        lastError = error;
+        log.warn(`Embedded media candidate failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    const reason = lastError instanceof Error ? lastError.message : String(lastError);
+    throw new Error(`Could not download the ${wanted} embedded in ${pageUrl}: ${reason}`, { cause: lastError });
+  }
+
+  /**
+   * Ingest an HLS or DASH stream: pick a variant, fetch its segments and remux them into one MP4
+   */
+  private async downloadStream(
+    protocol: StreamProtocol,
+    manifestUrl: string,
+    manifest: string,
+    strategy: RequestStrategy,
+    options: DownloadOptions
+  ): Promise<DownloadResult> {
+    if (!(await this.ffmpegService.isAvailable())) {
+      throw new Error('HLS and DASH URLs require ffmpeg to be installed');
+    }
+
+    const maxDuration = options.stream?.maxDuration;
+    const variants = protocol === 'hls'
+      ? parseHlsPlaylist(manifest, manifestUrl)
+      : parseDashManifest(manifest, manifestUrl, maxDuration);
+    const variant = selectVariant(variants, {
+      maxHeight: options.stream?.maxHeight ?? DEFAULT_STREAM_MAX_HEIGHT,
+      maxBandwidth: options.stream?.maxBandwidth
+    });
+    log.info(`Selected ${protocol.toUpperCase()} variant of ${variants.length}: ${variant.height ? `${variant.width}x${variant.height}, ` : ''}${variant.bandwidth ?? 'unknown'} bps`);
+
+    const workDir = this.ffmpegService.createWorkDir('stream');
+    try {
+      const video = limitSegments(await this.resolveTrack(variant.video, strategy), maxDuration);
+      const audio = variant.audio ? limitSegments(await this.resolveTrack(variant.audio, strategy), maxDuration) : undefined;
+      if (video.segments.length === 0) {
+        throw new Error('Stream has no segments');
+      }
+
+      // The size limit covers all tracks together
+      const received = { bytes: 0 };
+      const inputs = [await this.downloadTrack(protocol, video, path.join(workDir, 'video'), strategy, received)];
+      if (audio && audio.segments.length > 0) {
+        inputs.push(await this.downloadTrack(protocol, audio, path.join(workDir, 'audio'), strategy, received));
+      }
+
+      const format = getFormatByMimeType('video/mp4')!;
+      const filename = this.generateFilename(manifestUrl, format);
+      const filepath = path.join(this.tempDir, filename);
+      await this.ffmpegService.remuxToMp4(inputs, filepath, maxDuration);
+
+      const listedSeconds = video.segments.reduce((total, segment) => total + segment.duration, 0);
+      const stream: StreamIngest = {
+        protocol,
+        ...(variant.bandwidth && { bandwidth: variant.bandwidth }),
+        ...(variant.width && variant.height && { width: variant.width, height: variant.height }),
+        durationSeconds: maxDuration === undefined ? listedSeconds : Math.min(listedSeconds, maxDuration),
+        segmentCount: video.segments.length
+      };
+      const fileSize = fs.statSync(filepath).size;
+      log.info(`Ingested ${stream.segmentCount} segments (${Math.round(stream.durationSeconds)}s) into ${filename} (${fileSize} bytes)`);
+
+      return {
+        filepath,
+        filename,
+        mimeType: format.mimeType,
+        fileSize,
+        checksum: await this.hashFile(filepath),
+        stream
+      };
+    } finally {
+      this.ffmpegService.removeWorkDir(workDir);
+    }
+  }
+
+  /**
+   * Fetch and parse an HLS media playlist; DASH tracks already list their segments
+   */
+  private async resolveTrack(source: TrackSource, strategy: RequestStrategy): Promise<SegmentList> {
+    if (typeof source !== 'string') return source;
+
+    const response = await this.http.get<string>(source, {
+      ...this.requestOptions(this.strategyFor(source, strategy), 30000),
+      responseType: 'text',
+      maxContentLength: MAX_TEXT_BYTES
+    });
+    return parseHlsMediaPlaylist(response.data, source);
+  }
+
+  /**
+   * Download a track's segments a few at a time and join them, in order, into one file of the track's container format
+   */
+  private async downloadTrack(
+    protocol: StreamProtocol,
+    list: SegmentList,
+    trackPath: string,
+    strategy: RequestStrategy,
+    received: { bytes: number }
+  ): Promise<RemuxInput> {
+    const urls = [...(list.initUrl ? [list.initUrl] : []), ...list.segments.map(segment => segment.url)];
+    const partPaths = urls.map((_, index) => `${trackPath}-${String(index).padStart(5, '0')}`);
+    log.info(`Downloading ${urls.length} stream segments for ${path.basename(trackPath)}`);
+
+    let next = 0;
+    let failed = false;
+    const worker = async () => {
+      while (!failed && next < urls.length) {
+        const index = next++;
+        try {
+          await this.streamToFile(urls[index], this.strategyFor(urls[index], strategy), partPaths[index], received);
+        } catch (error) {
+          failed = true;
+          throw error;
+        }
+      }
+    };
+
+    // Let every worker finish before reporting a failure, so nothing is still writing during cleanup
+    const results = await Promise.allSettled(Array.from({ length: Math.min(MAX_SEGMENT_CONCURRENCY, urls.length) }, worker));
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failure) {
+      throw failure.reason;
+    }
+
+    for (const partPath of partPaths) {
+      await pipeline(fs.createReadStream(partPath), fs.createWriteStream(trackPath, { flags: 'a' }));
+      fs.unlinkSync(partPath);
+    }
+    return { path: trackPath, format: protocol === 'dash' || list.initUrl ? 'mp4' : 'mpegts' };
+  }
+
+  /**
+   * Strategy for a URL fetched on behalf of another, such as a stream segment: the same one when both share a profile,
+   * so credentials never reach hosts their profile does not cover
+   */
+  private strategyFor(url: string, strategy: RequestStrategy): RequestStrategy {
+    const strategies = this.requestProfiles.getStrategies(url);
+    return strategies[0].profile === strategy.profile ? strategy : strategies[0];
+  }
+
+  /**
+   * Axios options for a request made with a strategy. HTTP_PROXY/HTTPS_PROXY are ignored, as their connections would bypass the address check.
+   */
+  private requestOptions(strategy: RequestStrategy, defaultTimeout: number) {
+    return {
+      timeout: strategy.timeout ?? defaultTimeout,
+      headers: strategy.headers,
+      proxy: strategy.proxy ?? false,
+      // Proxied redirects are followed by followProxiedRedirect so each target can be resolved and checked first
+      ...(strategy.proxy && { ...this.proxyAgents, maxRedirects: 0 })
+    };
+  }
+
+  /**
+   * Follow a redirect answered to a proxied request by issuing a new request, which the request interceptor checks
+   */
+  private async followProxiedRedirect(error: unknown): Promise<AxiosResponse> {
+    if (!axios.isAxiosError(error) || !error.config?.proxy || !error.config.url || !error.response) throw error;
+
+    const { status, headers, data } = error.response;
+    const location = headerValue(headers['location']);
+    if (status < 300 || status >= 400 || !location) throw error;
+
+    const config = error.config as InternalAxiosRequestConfig & { redirectCount?: number };
+    const redirectCount = config.redirectCount ?? 0;
+    if (redirectCount >= MAX_REDIRECTS) {
+      throw new Error('Maximum number of redirects exceeded', { cause: error });
+    }
+
+    (data as { destroy?: () => void } | undefined)?.destroy?.();
+    const redirected = { ...config, url: new URL(location, config.url).href, redirectCount: redirectCount + 1 };
+    return this.http.request(redirected);
+  }
+
+  /**
+   * MD5 of a file, read as a stream
+   */
+  private async hashFile(filePath: string): Promise<string> {
+    const hash = crypto.createHash('md5');
+    for await (const chunk of fs.createReadStream(filePath)) {
+      hash.update(chunk);
+    }
+    return hash.digest('hex');
+  }
+
+  /**
+   * Read the leading part of a downloaded web page or manifest
+   */
+  private readText(filePath: string, size: number): string {
+    const buffer = Buffer.alloc(Math.min(size, MAX_TEXT_BYTES));
+    const fd = fs.openSync(filePath, 'r');
+    try {
+      const bytesRead = fs.readSync(fd, buffer, 0, buffer.length, 0);
+      return buffer.subarray(0, bytesRead).toString('utf8');
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
   /**
    * Download media and return as buffer (without saving to disk)
    */
-  async downloadMediaBuffer(url: string): Promise<DownloadResult> {
+  async downloadMediaBuffer(url: string, options: DownloadOptions = {}): Promise<DownloadResult & { fileData: Buffer }> {
     try {
       log.info(`Starting buffer download from URL: ${url}`);
 
-      // Use the same retry strategy but don't save to disk
-      const result = await this.downloadWithRetry(url);
+      // Use the same retry strategy, then read the file back
+      const result = await this.downloadWithRetry(url, options, true);
+      const fileData = fs.readFileSync(result.filepath);
       
       // Remove the temp file since we only want the buffer
       this.cleanupTempFile(result.filepath);
       
       return {
+        ...result,
         filepath: '', // No file path for buffer-only download
-        filename: result.filename,
-        mimeType: result.mimeType,
-        fileData: result.fileData,
-        fileSize: result.fileSize
+        fileData
       };
     } catch (error) {
+      const policyError = findUrlPolicyError(error);
+      if (policyError) {
+        throw policyError;
+      }
       if (axios.isAxiosError(error)) {
         if (error.response) {
           throw new Error(`Download failed with status ${error.response.status}: ${error.response.statusText}`);
@@ -282,12 +615,21 @@ export class MediaDownloaderService {
    * Check if MIME type is supported
    */
   isSupported(mimeType: string): boolean {
-    if (!mimeType) return false;
-    
-    // Extract base MIME type (without parameters)
-    const baseMimeType = mimeType.split(';')[0].trim().toLowerCase();
+    return getFormatByMimeType(mimeType) !== undefined;
+  }
+
+  /**
+   * Detect the format of downloaded data, trusting magic bytes over the server's content type
+   */
+  private detectDownloadFormat(url: string, head: Buffer, contentType?: string): MediaFormat | undefined {
+    let urlPath: string | undefined;
+    try {
+      urlPath = new URL(url).pathname;
+    } catch {
+      urlPath = undefined;
+    }
     
-    return this.supportedMimeTypes.has(baseMimeType);
+    return detectFormat(head) ?? getFormatByMimeType(contentType) ?? getFormatByExtension(urlPath);
   }
 
   /**
@@ -301,39 +643,30 @@ export class MediaDownloaderService {
     error?: string;
     strategy?: number;
   }> {
-    const strategies = [
-      {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.9',
-      },
-      {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:109.0) Gecko/20100101 Firefox/121.0',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.5',
-      },
-      {
-        'User-Agent': 'MCP-Video-Recognition/1.0 (+https://github.com/mario-andreschak/mcp_video_recognition)',
-        'Accept': '*/*'
-      }
-    ];
+    try {
+      this.urlPolicy.checkUrl(url);
+    } catch (error) {
+      return { accessible: false, error: (error as Error).message };
+    }
+    
+    const strategies = this.requestProfiles.getStrategies(url);
 
     for (let i = 0; i < strategies.length; i++) {
       try {
-        const response = await axios.head(url, {
-          timeout: 10000,
-          maxRedirects: 5,
-          headers: strategies[i]
-        });
+        const response = await this.http.head(url, this.requestOptions(strategies[i], 10000));
 
         return {
           accessible: true,
           status: response.status,
-          contentType: response.headers['content-type'],
-          contentLength: parseInt(response.headers['content-length'] || '0'),
+          contentType: headerValue(response.headers['content-type']),
+          contentLength: parseInt(headerValue(response.headers['content-length']) || '0'),
           strategy: i + 1
         };
       } catch (error) {
+        const policyError = findUrlPolicyError(error);
+        if (policyError) {
+          return { accessible: false, error: policyError.message, strategy: i + 1 };
+        }
         if (axios.isAxiosError(error) && error.response) {
           const status = error.response.status;
           if (status === 403 || status === 401 || status === 429) {
@@ -361,29 +694,37 @@ export class MediaDownloaderService {
   /**
    * Generate filename from URL or use random name
    */
-  private generateFilename(url: string, mimeType: string): string {
+  private generateFilename(url: string, format: MediaFormat): string {
+    const extension = format.extensions[0];
+    
     try {
       const urlObj = new URL(url);
       const pathname = urlObj.pathname;
       const basename = path.basename(pathname);
       
-      // If basename has an extension, use it
-      if (basename && basename.includes('.')) {
+      // If basename has an extension matching the detected format, use it
+      if (basename && getFormatByExtension(basename) === format) {
         return basename;
       }
       
       // Otherwise, generate a name with appropriate extension
-      const extension = mime.extension(mimeType) || 'bin';
       const hash = crypto.createHash('md5').update(url).digest('hex').substring(0, 8);
-      return `media_${hash}.${extension}`;
+      return `media_${hash}${extension}`;
     } catch {
       // If URL parsing fails, just use a random name
-      const extension = mime.extension(mimeType) || 'bin';
       const randomId = crypto.randomBytes(4).toString('hex');
-      return `media_${randomId}.${extension}`;
+      return `media_${randomId}${extension}`;
     }
   }
 
+  /**
+   * Get a uniquely named temp file path for stored media, keeping the original extension
+   */
+  createTempPath(filename: string): string {
+    const randomId = crypto.randomBytes(4).toString('hex');
+    return path.join(this.tempDir, `${randomId}_${path.basename(filename)}`);
+  }
+
   /**
    * Clean up temporary files
    */
@@ -406,7 +747,8 @@ export class MediaDownloaderService {
       const files = fs.readdirSync(this.tempDir);
       files.forEach(file => {
         const filepath = path.join(this.tempDir, file);
-        fs.unlinkSync(filepath);
+        // ffmpeg work directories for segments and frames live here too
+        fs.rmSync(filepath, { recursive: true, force: true });
       });
       log.info(`Cleaned up ${files.length} temp files`);
     } catch (error) {
@@ -418,15 +760,6 @@ export class MediaDownloaderService {
    * Get supported file extensions
    */
   getSupportedExtensions(): string[] {
-    const extensions = new Set<string>();
-    
-    this.supportedMimeTypes.forEach(mimeType => {
-      const ext = mime.extension(mimeType);
-      if (ext) {
-        extensions.add(`.${ext}`);
-      }
-    });
-
-    return Array.from(extensions).sort();
+    return getSupportedExtensions().sort();
   }
 }
\ No newline at end of file
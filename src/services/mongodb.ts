@@ -2,32 +2,144 @@
  * MongoDB service for storing media and analysis results
  */
 
-import { MongoClient, Db, Collection, ObjectId } from 'mongodb';
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs';
+import { pipeline } from 'node:stream/promises';
+import { MongoClient, Db, Collection, GridFSBucket, ObjectId } from 'mongodb';
 import { createLogger } from '../utils/logger.js';
+import type {
+  VideoClip,
+  CachedFile,
+  FileCacheStore,
+  ConversationTurn,
+  GenerationOptions,
+  ResponseMetadata,
+  SegmentAnalysis,
+  FrameSampling,
+  StreamIngest,
+  StreamOptions,
+  SubtitleFormat,
+  Transcript,
+  Chapter,
+  DocumentPage,
+  DocumentTextFormat,
+  ModerationPolicyCategory,
+  ModerationSeverity,
+  ModerationVerdict
+} from '../types/index.js';
 
 const log = createLogger('MongoDBService');
 
+// Fields covered by the text index; MongoDB allows one text index per collection
+const TEXT_INDEX_FIELDS = ['analysis.result', 'document.pages.text'];
+
+// Media content is kept in GridFS, so documents stay small and files are never held in memory whole
+const MEDIA_BUCKET = 'media_files';
+
+// Documents are read without inline content from before GridFS; writeMediaFile fetches it when needed
+const WITHOUT_FILE_DATA = { projection: { fileData: 0 } } as const;
+
+export interface MediaAnalysis {
+  cacheKey?: string;  // Hash of the prompt and options, matched exactly when reusing the analysis
+  prompt: string;
+  result: string;
+  model: string;
+  responseSchema?: Record<string, unknown>;
+  structured?: unknown;
+  videoClip?: VideoClip;
+  generationConfig?: GenerationOptions;
+  responseMetadata?: ResponseMetadata;
+  segments?: SegmentAnalysis[];  // Per-segment answers for videos analyzed in parts
+  frameSampling?: FrameSampling; // Frames sent instead of the video in frames mode
+  stream?: StreamIngest & StreamOptions; // Variant and limits used when the URL was an HLS or DASH stream
+  analyzedAt: Date;
+}
+
+/**
+ * Analysis fields supplied by callers; analyzedAt is set on write
+ */
+export type MediaAnalysisInput = Omit<MediaAnalysis, 'analyzedAt'>;
+
+export interface ConversationEntry extends ConversationTurn {
+  model?: string;
+  createdAt: Date;
+}
+
+/**
+ * Timed transcript kept with its rendered subtitle file
+ */
+export interface StoredTranscript extends Transcript {
+  format: SubtitleFormat;
+  subtitle: string;
+  model: string;
+  languageHint?: string;   // Language the caller asked for, as opposed to the detected one
+  speakerLabels?: boolean;
+  createdAt: Date;
+}
+
+/**
+ * Validated chapter list of a video
+ */
+export interface StoredChapters {
+  chapters: Chapter[];
+  durationSeconds?: number;  // From ffprobe, when available
+  maxChapters?: number;
+  focus?: string;
+  model: string;
+  createdAt: Date;
+}
+
+/**
+ * Per-page text of a document or scanned image
+ */
+export interface StoredDocument {
+  pages: DocumentPage[];
+  format: DocumentTextFormat;
+  extractTables: boolean;
+  model: string;
+  createdAt: Date;
+}
+
+/**
+ * One moderation run, kept for auditing
+ */
+export interface ModerationRecord {
+  policy: ModerationPolicyCategory[];
+  flagSeverity: ModerationSeverity;
+  verdicts: ModerationVerdict[];
+  flagged: boolean;
+  blockReason?: string;  // Set when Gemini blocked the request and verdicts come from safety ratings alone
+  model: string;
+  createdAt: Date;
+}
+
 export interface MediaDocument {
   _id?: ObjectId;
   url: string;
+  resolvedUrl?: string;  // Direct media URL when url is a web page
   filename: string;
   mimeType: string;
-  fileData: Buffer;
+  fileId?: ObjectId;     // Content in the media_files GridFS bucket
+  fileData?: Buffer;     // Inline content of documents stored before GridFS; not returned by queries
   fileSize: number;
+  checksum?: string;     // MD5 of the content; a URL keeps one document per content
   uploadedAt: Date;
-  analysis?: {
-    prompt: string;
-    result: string;
-    model: string;
-    analyzedAt: Date;
-  };
+  analysis?: MediaAnalysis;       // Most recent analysis
+  analyses?: MediaAnalysis[];     // Every analysis, one per cache key
+  conversation?: ConversationEntry[];
+  transcript?: StoredTranscript;
+  chapters?: StoredChapters;
+  document?: StoredDocument;
+  moderation?: ModerationRecord[];
   metadata?: Record<string, any>;
 }
 
-export class MongoDBService {
+export class MongoDBService implements FileCacheStore {
   private client: MongoClient | null = null;
   private db: Db | null = null;
   private mediaCollection: Collection<MediaDocument> | null = null;
+  private fileCacheCollection: Collection<CachedFile> | null = null;
+  private mediaBucket: GridFSBucket | null = null;
   private connectionString: string;
   private dbName: string;
 
@@ -52,7 +164,8 @@ export class MongoDBService {
         this.client = new MongoClient(this.connectionString, {
           serverSelectionTimeoutMS: 10000,
           connectTimeoutMS: 10000,
-          retryWrites: true
+          retryWrites: true,
+          promoteBuffers: true // Return stored media as Buffer rather than BSON Binary
         });
         
         await this.client.connect();
@@ -62,6 +175,8 @@ export class MongoDBService {
         
         this.db = this.client.db(this.dbName);
         this.mediaCollection = this.db.collection<MediaDocument>('media');
+        this.fileCacheCollection = this.db.collection<CachedFile>('gemini_files');
+        this.mediaBucket = new GridFSBucket(this.db, { bucketName: MEDIA_BUCKET });
         
         // Create indexes for better performance
         await this.createIndexes();
@@ -89,19 +204,25 @@ export class MongoDBService {
    * Create indexes for the media collection
    */
   private async createIndexes(): Promise<void> {
-    if (!this.mediaCollection) {
+    if (!this.mediaCollection || !this.fileCacheCollection) {
       throw new Error('Media collection not initialized');
     }
 
     try {
-      // Index on URL for quick lookups
-      await this.mediaCollection.createIndex({ url: 1 });
+      // Index on URL for quick lookups, newest first
+      await this.mediaCollection.createIndex({ url: 1, uploadedAt: -1 });
+      
+      // Index for finding a stored analysis by its options
+      await this.mediaCollection.createIndex({ url: 1, 'analyses.cacheKey': 1 });
       
       // Index on uploadedAt for time-based queries
       await this.mediaCollection.createIndex({ uploadedAt: -1 });
       
-      // Text index on analysis result for searching
-      await this.mediaCollection.createIndex({ 'analysis.result': 'text' });
+      // Text index on analysis results and document pages for searching
+      await this.ensureTextIndex();
+      
+      // One cached Gemini upload per file checksum
+      await this.fileCacheCollection.createIndex({ checksum: 1 }, { unique: true });
       
       log.info('Indexes created successfully');
     } catch (error) {
@@ -110,6 +231,24 @@ export class MongoDBService {
     }
   }
 
+  /**
+   * Create the text index, replacing one left by an earlier version that covers other fields
+   */
+  private async ensureTextIndex(): Promise<void> {
+    const indexes = await this.mediaCollection!.indexes();
+    const existing = indexes.find(index => index.key._fts === 'text');
+    const existingFields = Object.keys(existing?.weights ?? {}).sort();
+
+    if (existing?.name && existingFields.join() !== [...TEXT_INDEX_FIELDS].sort().join()) {
+      log.info(`Replacing text index ${existing.name}`);
+      await this.mediaCollection!.dropIndex(existing.name);
+    }
+
+    await this.mediaCollection!.createIndex(
+      Object.fromEntries(TEXT_INDEX_FIELDS.map(field => [field, 'text' as const]))
+    );
+  }
+
   /**
    * Disconnect from MongoDB
    */
@@ -119,40 +258,62 @@ export class MongoDBService {
       this.client = null;
       this.db = null;
       this.mediaCollection = null;
+      this.fileCacheCollection = null;
+      this.mediaBucket = null;
       log.info('Disconnected from MongoDB');
     }
   }
 
   /**
-   * Save media and its analysis to MongoDB
+   * Save media and its analysis to MongoDB, streaming the file into GridFS.
+   * Media already stored for the URL with the same content is updated instead of stored again.
    */
   async saveMedia(
     url: string,
     filename: string,
     mimeType: string,
-    fileData: Buffer,
-    analysis?: {
-      prompt: string;
-      result: string;
-      model: string;
-    }
+    filePath: string,
+    analysis?: MediaAnalysisInput,
+    resolvedUrl?: string
   ): Promise<MediaDocument> {
-    if (!this.mediaCollection) {
+    if (!this.mediaCollection || !this.mediaBucket) {
       throw new Error('MongoDB not connected');
     }
 
+    const checksum = await this.hashFile(filePath);
+    const existing = await this.mediaCollection.findOne({ url, checksum }, { ...WITHOUT_FILE_DATA, sort: { uploadedAt: -1 } });
+    if (existing?._id) {
+      if (resolvedUrl) {
+        await this.mediaCollection.updateOne({ _id: existing._id }, { $set: { resolvedUrl } });
+      }
+      if (analysis) {
+        await this.storeAnalysis(existing._id, analysis);
+      }
+      log.info(`Media already stored for URL, updated: ${existing._id}`);
+      return (await this.findById(existing._id)) ?? existing;
+    }
+
+    const upload = this.mediaBucket.openUploadStream(filename, { metadata: { mimeType } });
+    try {
+      await pipeline(fs.createReadStream(filePath), upload);
+    } catch (error) {
+      log.error('Error storing media file in GridFS', error);
+      throw error;
+    }
+
+    const storedAnalysis = analysis && { ...analysis, analyzedAt: new Date() };
     const document: MediaDocument = {
       url,
+      ...(resolvedUrl && { resolvedUrl }),
       filename,
       mimeType,
-      fileData,
-      fileSize: fileData.length,
+      fileId: upload.id,
+      fileSize: upload.length,
+      checksum,
       uploadedAt: new Date(),
-      ...(analysis && {
-        analysis: {
-          ...analysis,
-          analyzedAt: new Date()
-        }
+      ...(storedAnalysis && {
+        analysis: storedAnalysis,
+        analyses: [storedAnalysis]
       })
     };
 
@@ -160,10 +321,66 @@ export class MongoDBService {
       const result = await this.mediaCollection.insertOne(document);
       document._id = result.insertedId;
       
-      log.info(`Media saved successfully: ${filename} (${fileData.length} bytes)`);
+      log.info(`Media saved successfully: ${filename} (${upload.length} bytes)`);
       return document;
     } catch (error) {
       log.error('Error saving media to MongoDB', error);
+      await this.mediaBucket.delete(upload.id).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * MD5 of a file, read as a stream
+   */
+  private async hashFile(filePath: string): Promise<string> {
+    const hash = crypto.createHash('md5');
+    for await (const chunk of fs.createReadStream(filePath)) {
+      hash.update(chunk);
+    }
+    return hash.digest('hex');
+  }
+
+  /**
+   * Make an analysis the most recent one of a media document, replacing an earlier analysis with the same cache key
+   */
+  private async storeAnalysis(id: ObjectId, analysis: MediaAnalysisInput): Promise<boolean> {
+    const stored: MediaAnalysis = { ...analysis, analyzedAt: new Date() };
+    if (stored.cacheKey) {
+      await this.mediaCollection!.updateOne({ _id: id }, { $pull: { analyses: { cacheKey: stored.cacheKey } } });
+    }
+    const result = await this.mediaCollection!.updateOne(
+      { _id: id },
+      {
+        $set: { analysis: stored },
+        $push: { analyses: stored }
+      }
+    );
+    return result.matchedCount > 0;
+  }
+
+  /**
+   * Write the stored content of a media document to a file, streaming it from GridFS
+   */
+  async writeMediaFile(media: MediaDocument, filePath: string): Promise<void> {
+    if (!this.mediaCollection || !this.mediaBucket) {
+      throw new Error('MongoDB not connected');
+    }
+
+    try {
+      if (media.fileId) {
+        await pipeline(this.mediaBucket.openDownloadStream(media.fileId), fs.createWriteStream(filePath));
+        return;
+      }
+
+      // Documents from before GridFS keep the content inline
+      const legacy = await this.mediaCollection.findOne({ _id: media._id }, { projection: { fileData: 1 } });
+      if (!legacy?.fileData) {
+        throw new Error(`No stored content for media: ${media._id}`);
+      }
+      await fs.promises.writeFile(filePath, legacy.fileData);
+    } catch (error) {
+      log.error('Error reading stored media file', error);
       throw error;
     }
   }
@@ -173,11 +390,7 @@ export class MongoDBService {
    */
   async updateAnalysis(
     mediaId: ObjectId | string,
-    analysis: {
-      prompt: string;
-      result: string;
-      model: string;
-    }
+    analysis: MediaAnalysisInput
   ): Promise<boolean> {
     if (!this.mediaCollection) {
       throw new Error('MongoDB not connected');
@@ -186,19 +399,7 @@ export class MongoDBService {
     try {
       const id = typeof mediaId === 'string' ? new ObjectId(mediaId) : mediaId;
       
-      const result = await this.mediaCollection.updateOne(
-        { _id: id },
-        {
-          $set: {
-            analysis: {
-              ...analysis,
-              analyzedAt: new Date()
-            }
-          }
-        }
-      );
-
-      if (result.modifiedCount > 0) {
+      if (await this.storeAnalysis(id, analysis)) {
         log.info(`Analysis updated for media: ${id}`);
         return true;
       } else {
@@ -212,7 +413,7 @@ export class MongoDBService {
   }
 
   /**
-   * Find media by URL
+   * Find the most recently stored media for a URL
    */
   async findByUrl(url: string): Promise<MediaDocument | null> {
     if (!this.mediaCollection) {
@@ -220,7 +421,7 @@ export class MongoDBService {
     }
 
     try {
-      const document = await this.mediaCollection.findOne({ url });
+      const document = await this.mediaCollection.findOne({ url }, { ...WITHOUT_FILE_DATA, sort: { uploadedAt: -1 } });
       if (document) {
         log.info(`Found existing media for URL: ${url}`);
       }
@@ -231,6 +432,192 @@ export class MongoDBService {
     }
   }
 
+  /**
+   * Find a stored analysis of a URL made with the same prompt and options, from the most recently stored media
+   */
+  async findAnalysis(url: string, cacheKey: string): Promise<MediaAnalysis | null> {
+    if (!this.mediaCollection) {
+      throw new Error('MongoDB not connected');
+    }
+
+    try {
+      const document = await this.mediaCollection.findOne(
+        { url, 'analyses.cacheKey': cacheKey },
+        { projection: { analyses: { $elemMatch: { cacheKey } } }, sort: { uploadedAt: -1 } }
+      );
+      const analysis = document?.analyses?.[0] ?? null;
+      if (analysis) {
+        log.info(`Found existing analysis for URL: ${url}`);
+      }
+      return analysis;
+    } catch (error) {
+      log.error('Error finding analysis by URL', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find media by its id
+   */
+  async findById(mediaId: ObjectId | string): Promise<MediaDocument | null> {
+    if (!this.mediaCollection) {
+      throw new Error('MongoDB not connected');
+    }
+
+    try {
+      const id = typeof mediaId === 'string' ? new ObjectId(mediaId) : mediaId;
+      return await this.mediaCollection.findOne({ _id: id }, WITHOUT_FILE_DATA);
+    } catch (error) {
+      log.error('Error finding media by ID', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Append turns to the follow-up conversation of a media document
+   */
+  async appendConversation(mediaId: ObjectId | string, entries: ConversationEntry[]): Promise<boolean> {
+    if (!this.mediaCollection) {
+      throw new Error('MongoDB not connected');
+    }
+
+    try {
+      const id = typeof mediaId === 'string' ? new ObjectId(mediaId) : mediaId;
+      
+      const result = await this.mediaCollection.updateOne(
+        { _id: id },
+        { $push: { conversation: { $each: entries } } }
+      );
+
+      if (result.modifiedCount > 0) {
+        log.info(`Conversation updated for media: ${id}`);
+        return true;
+      } else {
+        log.warn(`No media found with ID: ${id}`);
+        return false;
+      }
+    } catch (error) {
+      log.error('Error updating conversation', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Append a moderation run to the audit history of a media document
+   */
+  async appendModeration(mediaId: ObjectId | string, record: ModerationRecord): Promise<boolean> {
+    if (!this.mediaCollection) {
+      throw new Error('MongoDB not connected');
+    }
+
+    try {
+      const id = typeof mediaId === 'string' ? new ObjectId(mediaId) : mediaId;
+      
+      const result = await this.mediaCollection.updateOne(
+        { _id: id },
+        { $push: { moderation: record } }
+      );
+
+      if (result.modifiedCount > 0) {
+        log.info(`Moderation verdicts saved for media: ${id}`);
+        return true;
+      } else {
+        log.warn(`No media found with ID: ${id}`);
+        return false;
+      }
+    } catch (error) {
+      log.error('Error saving moderation verdicts', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Store the transcript of a media document, replacing any earlier one
+   */
+  async saveTranscript(mediaId: ObjectId | string, transcript: StoredTranscript): Promise<boolean> {
+    if (!this.mediaCollection) {
+      throw new Error('MongoDB not connected');
+    }
+
+    try {
+      const id = typeof mediaId === 'string' ? new ObjectId(mediaId) : mediaId;
+      
+      const result = await this.mediaCollection.updateOne(
+        { _id: id },
+        { $set: { transcript } }
+      );
+
+      if (result.matchedCount > 0) {
+        log.info(`Transcript saved for media: ${id}`);
+        return true;
+      } else {
+        log.warn(`No media found with ID: ${id}`);
+        return false;
+      }
+    } catch (error) {
+      log.error('Error saving transcript', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Store the chapters of a media document, replacing any earlier ones
+   */
+  async saveChapters(mediaId: ObjectId | string, chapters: StoredChapters): Promise<boolean> {
+    if (!this.mediaCollection) {
+      throw new Error('MongoDB not connected');
+    }
+
+    try {
+      const id = typeof mediaId === 'string' ? new ObjectId(mediaId) : mediaId;
+      
+      const result = await this.mediaCollection.updateOne(
+        { _id: id },
+        { $set: { chapters } }
+      );
+
+      if (result.matchedCount > 0) {
+        log.info(`Chapters saved for media: ${id}`);
+        return true;
+      } else {
+        log.warn(`No media found with ID: ${id}`);
+        return false;
+      }
+    } catch (error) {
+      log.error('Error saving chapters', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Store the per-page text of a media document, replacing any earlier one
+   */
+  async saveDocument(mediaId: ObjectId | string, document: StoredDocument): Promise<boolean> {
+    if (!this.mediaCollection) {
+      throw new Error('MongoDB not connected');
+    }
+
+    try {
+      const id = typeof mediaId === 'string' ? new ObjectId(mediaId) : mediaId;
+      
+      const result = await this.mediaCollection.updateOne(
+        { _id: id },
+        { $set: { document } }
+      );
+
+      if (result.matchedCount > 0) {
+        log.info(`Document text saved for media: ${id}`);
+        return true;
+      } else {
+        log.warn(`No media found with ID: ${id}`);
+        return false;
+      }
+    } catch (error) {
+      log.error('Error saving document text', error);
+      throw error;
+    }
+  }
+
   /**
    * Get recent media documents
    */
@@ -241,7 +628,7 @@ export class MongoDBService {
 
     try {
       const documents = await this.mediaCollection
-        .find({})
+        .find({}, WITHOUT_FILE_DATA)
         .sort({ uploadedAt: -1 })
         .limit(limit)
         .toArray();
@@ -254,7 +641,7 @@ export class MongoDBService {
   }
 
   /**
-   * Search media by analysis content
+   * Search media by analysis content and document text
    */
   async searchByAnalysis(searchText: string): Promise<MediaDocument[]> {
     if (!this.mediaCollection) {
@@ -265,7 +652,7 @@ export class MongoDBService {
       const documents = await this.mediaCollection
         .find({
           $text: { $search: searchText }
-        })
+        }, WITHOUT_FILE_DATA)
         .toArray();
       
       log.info(`Found ${documents.length} documents matching: ${searchText}`);
@@ -276,6 +663,76 @@ export class MongoDBService {
     }
   }
 
+  /**
+   * Get a persisted Gemini upload by file checksum
+   */
+  async getCachedFile(checksum: string): Promise<CachedFile | null> {
+    if (!this.fileCacheCollection) {
+      throw new Error('MongoDB not connected');
+    }
+
+    try {
+      return await this.fileCacheCollection.findOne({ checksum }, { projection: { _id: 0 } });
+    } catch (error) {
+      log.error('Error reading cached file', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List all persisted Gemini uploads
+   */
+  async listCachedFiles(): Promise<CachedFile[]> {
+    if (!this.fileCacheCollection) {
+      throw new Error('MongoDB not connected');
+    }
+
+    try {
+      return await this.fileCacheCollection.find({}, { projection: { _id: 0 } }).toArray();
+    } catch (error) {
+      log.error('Error listing cached files', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Persist a Gemini upload, replacing any previous entry for the checksum
+   */
+  async saveCachedFile(file: CachedFile): Promise<void> {
+    if (!this.fileCacheCollection) {
+      throw new Error('MongoDB not connected');
+    }
+
+    try {
+      await this.fileCacheCollection.updateOne(
+        { checksum: file.checksum },
+        { $set: file },
+        { upsert: true }
+      );
+      log.debug(`Cached file saved: ${file.name}`);
+    } catch (error) {
+      log.error('Error saving cached file', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a persisted Gemini upload
+   */
+  async deleteCachedFile(checksum: string): Promise<void> {
+    if (!this.fileCacheCollection) {
+      throw new Error('MongoDB not connected');
+    }
+
+    try {
+      await this.fileCacheCollection.deleteOne({ checksum });
+      log.debug(`Cached file removed: ${checksum}`);
+    } catch (error) {
+      log.error('Error deleting cached file', error);
+      throw error;
+    }
+  }
+
   /**
    * Get database statistics
    */
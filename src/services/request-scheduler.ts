@@ -0,0 +1,145 @@
+/**
+ * Request scheduler for Gemini API calls with per-key concurrency limits,
+ * retry-after handling and exponential backoff
+ */
+
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('RequestScheduler');
+
+export interface RequestSchedulerOptions {
+  maxConcurrency: number;   // Concurrent requests per key (model)
+  maxRetries: number;       // Retries after the first attempt
+  baseDelayMs: number;      // First backoff delay
+  maxDelayMs: number;       // Upper bound for a single backoff delay
+}
+
+const DEFAULT_OPTIONS: RequestSchedulerOptions = {
+  maxConcurrency: 4,
+  maxRetries: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 60000
+};
+
+// Rate limited, overloaded or transient server failures
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+/**
+ * Raised when a request is still rate limited or unavailable after all retries
+ */
+export class QuotaExhaustedError extends Error {
+  readonly status: number;
+  readonly attempts: number;
+  readonly retryAfterMs?: number;
+
+  constructor(status: number, attempts: number, retryAfterMs?: number) {
+    const reason = status === 429 ? 'quota exhausted' : 'service unavailable';
+    const retryHint = retryAfterMs ? `; retry after ${Math.ceil(retryAfterMs / 1000)}s` : '';
+    super(`Gemini ${reason} (HTTP ${status}) after ${attempts} attempts${retryHint}`);
+    this.name = 'QuotaExhaustedError';
+    this.status = status;
+    this.attempts = attempts;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class RequestScheduler {
+  private readonly options: RequestSchedulerOptions;
+  private readonly active: Map<string, number> = new Map();
+  private readonly waiting: Map<string, Array<() => void>> = new Map();
+
+  constructor(options: Partial<RequestSchedulerOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Run a task under the concurrency limit for its key, retrying retryable failures.
+   * The slot is released while backing off so other requests can proceed.
+   */
+  async schedule<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const maxAttempts = this.options.maxRetries + 1;
+
+    for (let attempt = 1; ; attempt++) {
+      let failure: unknown;
+
+      await this.acquire(key);
+      try {
+        return await task();
+      } catch (error) {
+        failure = error;
+      } finally {
+        this.release(key);
+      }
+
+      const status = this.getStatus(failure);
+      if (status === undefined || !RETRYABLE_STATUSES.has(status)) {
+        throw failure;
+      }
+
+      const retryAfterMs = this.getRetryAfter(failure);
+      if (attempt >= maxAttempts) {
+        throw new QuotaExhaustedError(status, attempt, retryAfterMs);
+      }
+
+      const delay = this.getDelay(attempt, retryAfterMs);
+      log.warn(`Request for ${key} failed with HTTP ${status}, retrying in ${delay}ms (attempt ${attempt}/${maxAttempts})`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+
+  private async acquire(key: string): Promise<void> {
+    const active = this.active.get(key) ?? 0;
+    if (active < this.options.maxConcurrency) {
+      this.active.set(key, active + 1);
+      return;
+    }
+
+    await new Promise<void>(resolve => {
+      const queue = this.waiting.get(key) ?? [];
+      queue.push(resolve);
+      this.waiting.set(key, queue);
+    });
+  }
+
+  private release(key: string): void {
+    const next = this.waiting.get(key)?.shift();
+    if (next) {
+      // Hand the slot straight to the next waiter
+      next();
+      return;
+    }
+    this.active.set(key, Math.max((this.active.get(key) ?? 1) - 1, 0));
+  }
+
+  /**
+   * Exponential backoff with full jitter, never shorter than the server's retry hint
+   */
+  private getDelay(attempt: number, retryAfterMs?: number): number {
+    const ceiling = Math.min(this.options.baseDelayMs * Math.pow(2, attempt - 1), this.options.maxDelayMs);
+    const backoff = Math.round(Math.random() * ceiling);
+    return retryAfterMs ? Math.max(retryAfterMs, backoff) : backoff;
+  }
+
+  private getStatus(error: unknown): number | undefined {
+    if (error && typeof error === 'object' && 'status' in error && typeof error.status === 'number') {
+      return error.status;
+    }
+    return undefined;
+  }
+
+  /**
+   * Read the retry hint from a Retry-After header or a google.rpc.RetryInfo detail
+   */
+  private getRetryAfter(error: unknown): number | undefined {
+    if (!(error instanceof Error)) return undefined;
+
+    const headers = (error as { headers?: Record<string, string> }).headers;
+    const retryAfterHeader = headers?.['retry-after'];
+    if (retryAfterHeader && !isNaN(Number(retryAfterHeader))) {
+      return Number(retryAfterHeader) * 1000;
+    }
+
+    const match = error.message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+    return match ? Math.round(parseFloat(match[1]) * 1000) : undefined;
+  }
+}
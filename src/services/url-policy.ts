@@ -0,0 +1,206 @@
+/**
+ * Policy for outbound media requests: allowed schemes, domain lists and blocked network ranges
+ */
+
+import * as dns from 'node:dns';
+import * as http from 'node:http';
+import * as https from 'node:https';
+import * as net from 'node:net';
+import { createLogger } from '../utils/logger.js';
+import type { UrlPolicyConfig } from '../types/index.js';
+
+const log = createLogger('UrlPolicy');
+
+// Loopback, private, link-local, shared, reserved and multicast ranges that media URLs may not reach
+const BLOCKED_IPV4_SUBNETS: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+];
+
+const BLOCKED_IPV6_SUBNETS: Array<[string, number]> = [
+  ['::', 128],
+  ['::1', 128],
+  ['::ffff:0:0', 96],  // IPv4-mapped addresses would bypass the IPv4 ranges
+  ['64:ff9b::', 96],   // NAT64 likewise
+  ['2002::', 16],      // 6to4 embeds an IPv4 address too
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+];
+
+/**
+ * Raised when a URL, redirect target or resolved address is not allowed
+ */
+export class UrlPolicyError extends Error {
+  constructor(message: string) {
+    super(`URL not allowed: ${message}`);
+    this.name = 'UrlPolicyError';
+  }
+}
+
+/**
+ * Find a policy violation anywhere in an error's cause chain, as HTTP clients wrap connection errors
+ */
+export function findUrlPolicyError(error: unknown): UrlPolicyError | undefined {
+  for (let current = error; current instanceof Error; current = current.cause) {
+    if (current instanceof UrlPolicyError) return current;
+  }
+  return undefined;
+}
+
+/**
+ * Normalize a hostname for comparison
+ */
+const normalizeHost = (hostname: string): string => {
+  return hostname.replace(/^\[|\]$/g, '').replace(/\.$/, '').toLowerCase();
+};
+
+/**
+ * Build a block list for one address family
+ */
+const toBlockList = (subnets: Array<[string, number]>, family: 'ipv4' | 'ipv6'): net.BlockList => {
+  const blockList = new net.BlockList();
+  for (const [address, prefix] of subnets) {
+    blockList.addSubnet(address, prefix, family);
+  }
+  return blockList;
+};
+
+/**
+ * Check whether a host is a listed domain or one of its subdomains
+ */
+const matchesDomain = (host: string, domains: string[]): boolean => {
+  return domains.some(domain => host === domain || host.endsWith(`.${domain}`));
+};
+
+export class UrlPolicy {
+  private allowedSchemes: Set<string>;
+  private allowedDomains: string[];
+  private blockedDomains: string[];
+  private allowPrivateNetworks: boolean;
+  private blockLists: Record<'ipv4' | 'ipv6', net.BlockList>;
+
+  constructor(config: UrlPolicyConfig = {}) {
+    this.allowedSchemes = new Set((config.allowedSchemes ?? ['http', 'https']).map(scheme => scheme.toLowerCase()));
+    this.allowedDomains = (config.allowedDomains ?? []).map(normalizeHost);
+    this.blockedDomains = (config.blockedDomains ?? []).map(normalizeHost);
+    this.allowPrivateNetworks = config.allowPrivateNetworks ?? false;
+
+    // One list per family: a shared list would match every IPv4 address against the IPv4-mapped range
+    this.blockLists = {
+      ipv4: toBlockList(BLOCKED_IPV4_SUBNETS, 'ipv4'),
+      ipv6: toBlockList(BLOCKED_IPV6_SUBNETS, 'ipv6')
+    };
+
+    if (this.allowPrivateNetworks) {
+      log.warn('Private network addresses are allowed for media URLs');
+    }
+  }
+
+  /**
+   * Check the scheme, the domain lists and, for IP literals, the address of a URL
+   */
+  checkUrl(url: string | URL): void {
+    let parsed: URL;
+    try {
+      parsed = typeof url === 'string' ? new URL(url) : url;
+    } catch {
+      throw new UrlPolicyError(`invalid URL ${url}`);
+    }
+
+    const scheme = parsed.protocol.replace(/:$/, '');
+    if (!this.allowedSchemes.has(scheme)) {
+      throw new UrlPolicyError(`scheme ${scheme} is not allowed`);
+    }
+
+    const host = normalizeHost(parsed.hostname);
+    if (matchesDomain(host, this.blockedDomains)) {
+      throw new UrlPolicyError(`${host} is on the domain denylist`);
+    }
+    if (this.allowedDomains.length > 0 && !matchesDomain(host, this.allowedDomains)) {
+      throw new UrlPolicyError(`${host} is not on the domain allowlist`);
+    }
+
+    // Connections to IP literals skip DNS, so the address is checked here
+    if (net.isIP(host)) {
+      this.checkAddress(host, host);
+    }
+  }
+
+  /**
+   * Check a URL and every address its host resolves to, for requests whose connection does not resolve the host itself
+   */
+  async checkResolvedUrl(url: string): Promise<void> {
+    this.checkUrl(url);
+    if (this.allowPrivateNetworks) return;
+
+    const host = normalizeHost(new URL(url).hostname);
+    if (net.isIP(host)) return;
+
+    const addresses = await dns.promises.lookup(host, { all: true });
+    for (const { address } of addresses) {
+      this.checkAddress(address, host);
+    }
+  }
+
+  /**
+   * Check a resolved address against the blocked network ranges
+   */
+  checkAddress(address: string, hostname: string): void {
+    if (this.allowPrivateNetworks) return;
+
+    const family = net.isIP(address) === 6 ? 'ipv6' : 'ipv4';
+    if (this.blockLists[family].check(address, family)) {
+      throw new UrlPolicyError(hostname === address
+        ? `${address} is a non-public address`
+        : `${hostname} resolves to the non-public address ${address}`);
+    }
+  }
+
+  /**
+   * Create HTTP agents whose DNS lookups reject blocked addresses, so every connection is checked as it is made
+   */
+  createAgents(): { httpAgent: http.Agent; httpsAgent: https.Agent } {
+    return {
+      httpAgent: new http.Agent({ lookup: this.lookup }),
+      httpsAgent: new https.Agent({ lookup: this.lookup })
+    };
+  }
+
+  /**
+   * dns.lookup replacement that fails when any resolved address is blocked
+   */
+  private lookup: net.LookupFunction = (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) {
+        callback(error, '', 0);
+        return;
+      }
+
+      try {
+        for (const { address } of addresses) {
+          this.checkAddress(address, hostname);
+        }
+      } catch (policyError) {
+        log.warn((policyError as Error).message);
+        callback(policyError as NodeJS.ErrnoException, '', 0);
+        return;
+      }
+
+      if (options.all) {
+        (callback as unknown as (error: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    });
+  };
+}
@@ -0,0 +1,254 @@
+/**
+ * Splits long videos into overlapping segments, analyzes each one and merges the answers
+ */
+
+import * as path from 'node:path';
+import { createLogger } from '../utils/logger.js';
+import { formatTimestamp } from '../utils/timestamps.js';
+import { detectFileFormat } from '../utils/media-formats.js';
+import { FfmpegService } from './ffmpeg.js';
+import { CostEstimator } from './cost-estimator.js';
+import type { CostEstimate } from './cost-estimator.js';
+import type {
+  GeminiFile,
+  GeminiResponse,
+  MediaProbe,
+  ProcessFileOptions,
+  RecognitionProvider,
+  SegmentAnalysis,
+  TokenUsage,
+  VideoClip,
+  VideoSegmentationConfig
+} from '../types/index.js';
+
+const log = createLogger('VideoSegmenter');
+
+const DEFAULT_CONFIG: Required<VideoSegmentationConfig> = {
+  maxDurationSeconds: 45 * 60,           // Roughly what fits a 1M token context at default resolution
+  maxSizeBytes: 2 * 1024 * 1024 * 1024,  // Gemini File API limit
+  segmentSeconds: 10 * 60,
+  overlapSeconds: 10
+};
+
+// Keep segments comfortably below the size limit when it is the trigger
+const SIZE_SAFETY_FACTOR = 0.9;
+
+interface SegmentPlan {
+  index: number;
+  startOffset: number;
+  endOffset: number;
+}
+
+export interface SegmentedResult {
+  response: GeminiResponse;
+  segments: SegmentAnalysis[];
+}
+
+export class VideoSegmenter {
+  private readonly ffmpegService: FfmpegService;
+  private readonly config: Required<VideoSegmentationConfig>;
+
+  constructor(ffmpegService: FfmpegService, config: VideoSegmentationConfig = {}) {
+    this.ffmpegService = ffmpegService;
+    this.config = {
+      ...DEFAULT_CONFIG,
+      ...Object.fromEntries(Object.entries(config).filter(([, value]) => value !== undefined))
+    };
+    if (this.config.overlapSeconds >= this.config.segmentSeconds) {
+      throw new Error('Segment overlap must be shorter than the segment duration');
+    }
+  }
+
+  /**
+   * Probe a video when ffmpeg is installed; undefined means segmentation is unavailable
+   */
+  async probe(filePath: string): Promise<MediaProbe | undefined> {
+    if (!(await this.ffmpegService.isAvailable())) {
+      return undefined;
+    }
+    try {
+      return await this.ffmpegService.probe(filePath);
+    } catch (error) {
+      log.warn(`Could not probe ${path.basename(filePath)}, analyzing it whole`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Check whether the requested portion of a video is over the duration or size limit
+   */
+  needsSegmentation(probe: MediaProbe, clip?: VideoClip): boolean {
+    if (probe.durationSeconds <= 0) return false;
+    
+    const { start, end } = this.getRange(probe, clip);
+    return end - start > this.config.maxDurationSeconds || probe.sizeBytes > this.config.maxSizeBytes;
+  }
+
+  /**
+   * Analyze each segment, then combine the answers into one with full-video timestamps
+   */
+  async analyze(
+    provider: RecognitionProvider,
+    filePath: string,
+    probe: MediaProbe,
+    prompt: string,
+    modelName: string,
+    options: ProcessFileOptions = {}
+  ): Promise<SegmentedResult> {
+    // Segments are answered as free text; the schema and any conversation only apply to the merged answer
+    const segmentOptions: ProcessFileOptions = {
+      generation: options.generation,
+      videoClip: options.videoClip?.fps !== undefined ? { fps: options.videoClip.fps } : undefined
+    };
+    const usages: Array<TokenUsage | undefined> = [];
+    const segments: SegmentAnalysis[] = [];
+
+    const plans = this.planSegments(probe, options.videoClip);
+    for (const plan of plans) {
+      const result = await this.withSegmentFile(provider, filePath, plan, file =>
+        provider.processFile(file, this.buildSegmentPrompt(prompt, plan, plans.length), modelName, segmentOptions)
+      );
+      if (result.isError) {
+        return {
+          response: { ...result, text: `Segment ${plan.index + 1}/${plans.length} failed: ${result.text}` },
+          segments
+        };
+      }
+      usages.push(result.metadata?.usage);
+      segments.push({ ...plan, result: result.text });
+    }
+
+    log.info(`Merging ${segments.length} segment answers`);
+    const merged = await provider.processText(this.buildMergePrompt(prompt, segments), modelName, {
+      responseSchema: options.responseSchema,
+      generation: options.generation,
+      history: options.history
+    });
+    usages.push(merged.metadata?.usage);
+
+    return {
+      response: {
+        ...merged,
+        metadata: { ...merged.metadata, usage: this.sumUsage(usages) }
+      },
+      segments
+    };
+  }
+
+  /**
+   * Sum the cost estimates of all segments
+   */
+  async estimate(
+    provider: RecognitionProvider,
+    costEstimator: CostEstimator,
+    filePath: string,
+    probe: MediaProbe,
+    prompt: string,
+    modelName: string,
+    options: ProcessFileOptions = {}
+  ): Promise<CostEstimate & { segmentCount: number }> {
+    const plans = this.planSegments(probe, options.videoClip);
+    const estimates: CostEstimate[] = [];
+    for (const plan of plans) {
+      estimates.push(await this.withSegmentFile(provider, filePath, plan, file =>
+        costEstimator.estimate(provider, file, this.buildSegmentPrompt(prompt, plan, plans.length), modelName, {
+          generation: options.generation
+        })
+      ));
+    }
+
+    const costs = estimates.map(estimate => estimate.estimatedInputCostUsd);
+    return {
+      ...estimates[0],
+      inputTokens: estimates.reduce((sum, estimate) => sum + estimate.inputTokens, 0),
+      estimatedInputCostUsd: costs.includes(null)
+        ? null
+        : Number(costs.reduce((sum: number, cost) => sum + (cost ?? 0), 0).toFixed(6)),
+      segmentCount: plans.length
+    };
+  }
+
+  /**
+   * Split the requested range into overlapping windows
+   */
+  private planSegments(probe: MediaProbe, clip?: VideoClip): SegmentPlan[] {
+    const { start, end } = this.getRange(probe, clip);
+    const { segmentSeconds: configuredLength, overlapSeconds, maxSizeBytes } = this.config;
+
+    // Shorten segments when the file is large for its duration
+    const bytesPerSecond = probe.sizeBytes / probe.durationSeconds;
+    const sizeLimitedLength = Math.floor((maxSizeBytes * SIZE_SAFETY_FACTOR) / bytesPerSecond);
+    const segmentLength = Math.max(Math.min(configuredLength, sizeLimitedLength), overlapSeconds + 1);
+
+    const plans: SegmentPlan[] = [];
+    for (let offset = start; ; offset += segmentLength - overlapSeconds) {
+      const segmentEnd = Math.min(offset + segmentLength, end);
+      plans.push({ index: plans.length, startOffset: offset, endOffset: segmentEnd });
+      if (segmentEnd >= end) break;
+    }
+
+    log.info(`Planned ${plans.length} segments of up to ${segmentLength}s for ${formatTimestamp(end - start)} of video`);
+    return plans;
+  }
+
+  private getRange(probe: MediaProbe, clip?: VideoClip): { start: number; end: number } {
+    const start = Math.min(clip?.startOffset ?? 0, probe.durationSeconds);
+    const end = Math.min(clip?.endOffset ?? probe.durationSeconds, probe.durationSeconds);
+    return { start, end };
+  }
+
+  /**
+   * Cut a segment to a scratch file, upload it and run a task with the uploaded file
+   */
+  private async withSegmentFile<T>(
+    provider: RecognitionProvider,
+    filePath: string,
+    plan: SegmentPlan,
+    task: (file: GeminiFile) => Promise<T>
+  ): Promise<T> {
+    const workDir = this.ffmpegService.createWorkDir('segment');
+    try {
+      // The container follows the detected format so streams can be copied as they are
+      const extension = detectFileFormat(filePath)?.extensions[0] ?? path.extname(filePath);
+      const segmentPath = path.join(workDir, `segment_${plan.index}${extension}`);
+      await this.ffmpegService.cutSegment(filePath, plan.startOffset, plan.endOffset - plan.startOffset, segmentPath);
+
+      log.info(`Uploading segment ${plan.index + 1} (${formatTimestamp(plan.startOffset)}-${formatTimestamp(plan.endOffset)})`);
+      const file = await provider.uploadFile(segmentPath);
+      return await task(file);
+    } finally {
+      this.ffmpegService.removeWorkDir(workDir);
+    }
+  }
+
+  private buildSegmentPrompt(prompt: string, plan: SegmentPlan, segmentCount: number): string {
+    const start = formatTimestamp(plan.startOffset);
+    return `${prompt}\n\nThis is part ${plan.index + 1} of ${segmentCount} of a longer video and covers ` +
+      `${start} to ${formatTimestamp(plan.endOffset)} of it. Timestamps in this part start at 00:00; ` +
+      `report every timestamp relative to the full video by adding ${start}.`;
+  }
+
+  private buildMergePrompt(prompt: string, segments: SegmentAnalysis[]): string {
+    const parts = segments.map(segment =>
+      `[Part ${segment.index + 1}: ${formatTimestamp(segment.startOffset)}-${formatTimestamp(segment.endOffset)}]\n${segment.result}`
+    );
+    return 'The following are answers about consecutive, slightly overlapping parts of one video, ' +
+      'each labelled with the time range it covers. Combine them into one coherent answer to the request below. ' +
+      'Keep timestamps relative to the full video, drop repetitions caused by the overlap and do not mention the parts.\n\n' +
+      `Request: ${prompt}\n\n${parts.join('\n\n')}`;
+  }
+
+  private sumUsage(usages: Array<TokenUsage | undefined>): TokenUsage | undefined {
+    const known = usages.filter((usage): usage is TokenUsage => usage !== undefined);
+    if (known.length === 0) return undefined;
+
+    const sum = (key: keyof TokenUsage) => known.reduce((total, usage) => total + (usage[key] ?? 0), 0);
+    return {
+      promptTokens: sum('promptTokens'),
+      outputTokens: sum('outputTokens'),
+      thoughtsTokens: sum('thoughtsTokens'),
+      cachedTokens: sum('cachedTokens'),
+      totalTokens: sum('totalTokens')
+    };
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Follow-up question tool for MCP server
+ */
+
+import { createLogger } from '../utils/logger.js';
+import { MongoDBService } from '../services/mongodb.js';
+import { MediaDownloaderService } from '../services/media-downloader.js';
+import { VideoSegmenter } from '../services/video-segmenter.js';
+import { FrameSampler } from '../services/frame-sampler.js';
+import { AskFollowupParamsSchema } from '../types/index.js';
+import { toRecognitionToolResult } from '../utils/tool-result.js';
+import { FRAMES_NOTE } from './video-recognition.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type {
+  AskFollowupParams,
+  ConversationTurn,
+  GeminiResponse,
+  ProcessFileOptions,
+  RecognitionProvider
+} from '../types/index.js';
+import type { ConversationEntry } from '../services/mongodb.js';
+
+const log = createLogger('AskFollowupTool');
+
+export const createAskFollowupTool = (
+  recognitionProvider: RecognitionProvider,
+  mongodbService: MongoDBService,
+  mediaDownloaderService: MediaDownloaderService,
+  videoSegmenter: VideoSegmenter,
+  frameSampler: FrameSampler
+) => {
+  return {
+    name: 'ask_followup',
+    description: 'Ask a follow-up question about previously analyzed media, continuing the stored conversation',
+    inputSchema: AskFollowupParamsSchema,
+    callback: async (args: AskFollowupParams): Promise<CallToolResult> => {
+      let tempFilePath: string | null = null;
+      
+      try {
+        log.info(`Processing follow-up question for: ${args.mediaId || args.url}`);
+        log.verbose('Follow-up request', JSON.stringify(args));
+        
+        // Look up the stored media
+        const media = args.mediaId
+          ? await mongodbService.findById(args.mediaId)
+          : args.url
+            ? await mongodbService.findByUrl(args.url)
+            : null;
+        
+        if (!media || !media._id) {
+          throw new Error(`No stored media found for ${args.mediaId || args.url}`);
+        }
+        
+        // Continue the stored conversation, seeded with the original analysis
+        const seedTurns: ConversationTurn[] = media.analysis
+          ? [
+              { role: 'user', text: media.analysis.prompt },
+              { role: 'model', text: media.analysis.result }
+            ]
+          : [];
+        const history: ConversationTurn[] = media.conversation?.length
+          ? media.conversation.map(({ role, text }) => ({ role, text }))
+          : seedTurns;
+        
+        const modelName = args.modelname || 'gemini-2.5-flash';
+        const analysis = media.analysis;
+        const options: ProcessFileOptions = { history, videoClip: analysis?.videoClip };
+        
+        // Ask about the same input the original analysis saw: its frames, its segments or its clip
+        let result: GeminiResponse;
+        const frameTimestamps = analysis?.frameSampling?.timestamps;
+        
+        // A still valid upload of the whole file answers without writing the stored media to disk
+        const cachedFile = !frameTimestamps?.length && !analysis?.segments?.length && media.checksum
+          ? await recognitionProvider.getValidCachedFile(media.checksum)
+          : null;
+        
+        if (cachedFile) {
+          log.info(`Using cached file: ${cachedFile.name}`);
+          result = await recognitionProvider.processFile(cachedFile, args.question, modelName, options);
+        } else {
+          tempFilePath = mediaDownloaderService.createTempPath(media.filename);
+          await mongodbService.writeMediaFile(media, tempFilePath);
+          const probe = analysis?.segments?.length ? await videoSegmenter.probe(tempFilePath) : undefined;
+          
+          if (frameTimestamps?.length) {
+            log.info(`Re-extracting ${frameTimestamps.length} frames of the original analysis...`);
+            const frames = await frameSampler.extractFramesAt(tempFilePath, frameTimestamps);
+            result = await recognitionProvider.processImages(frames, args.question, modelName, {
+              history: history.map((turn, index) => index === 0 ? { ...turn, text: `${turn.text}\n\n${FRAMES_NOTE}` } : turn)
+            });
+          } else if (probe) {
+            log.info(`Original analysis used ${analysis!.segments!.length} segments, asking each of them...`);
+            const segmentedResult = await videoSegmenter.analyze(
+              recognitionProvider, tempFilePath, probe, args.question, modelName, options
+            );
+            result = segmentedResult.response;
+          } else {
+            // The cached upload is missing or expired, so the stored file is uploaded again
+            const file = await recognitionProvider.uploadFile(tempFilePath, media.checksum);
+            result = await recognitionProvider.processFile(file, args.question, modelName, options);
+          }
+        }
+        
+        if (result.isError) {
+          log.error(`Error answering follow-up: ${result.text}`);
+          return toRecognitionToolResult(result);
+        }
+        
+        // Store the new turns; the seed is persisted on the first follow-up
+        try {
+          const now = new Date();
+          const entries: ConversationEntry[] = [
+            ...(media.conversation?.length ? [] : seedTurns.map(turn => ({
+              ...turn,
+              model: media.analysis?.model,
+              createdAt: media.analysis?.analyzedAt ?? now
+            }))),
+            { role: 'user', text: args.question, createdAt: now },
+            { role: 'model', text: result.text, model: modelName, createdAt: now }
+          ];
+          await mongodbService.appendConversation(media._id, entries);
+        } catch (dbError) {
+          log.error('Failed to save conversation to MongoDB', dbError);
+          // Don't fail the entire operation if DB save fails
+        }
+        
+        log.info('Follow-up question answered successfully');
+        
+        return toRecognitionToolResult(result);
+      } catch (error) {
+        log.error('Error in follow-up tool', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error answering follow-up: ${errorMessage}`
+            }
+          ],
+          isError: true
+        };
+      } finally {
+        // Cleanup temp file written from stored data
+        if (tempFilePath) {
+          mediaDownloaderService.cleanupTempFile(tempFilePath);
+        }
+      }
+    }
+  };
+};
@@ -4,21 +4,27 @@
 
 import { z } from 'zod';
 import { createLogger } from '../utils/logger.js';
-import { GeminiService } from '../services/gemini.js';
 import { MongoDBService } from '../services/mongodb.js';
 import { MediaDownloaderService } from '../services/media-downloader.js';
+import { CostEstimator } from '../services/cost-estimator.js';
 import { AudioRecognitionParamsSchema } from '../types/index.js';
+import { resolveResponseSchema } from '../utils/structured-output.js';
+import { toRecognitionToolResult } from '../utils/tool-result.js';
+import { detectFileFormat, getSupportedExtensions } from '../utils/media-formats.js';
+import { getGenerationOptions } from '../utils/generation-options.js';
+import { getCacheKey } from '../utils/cache-key.js';
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import type { AudioRecognitionParams } from '../types/index.js';
+import type { AudioRecognitionParams, RecognitionProvider, ProcessFileOptions } from '../types/index.js';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 
 const log = createLogger('AudioRecognitionTool');
 
 export const createAudioRecognitionTool = (
-  geminiService: GeminiService,
+  recognitionProvider: RecognitionProvider,
   mongodbService: MongoDBService,
-  mediaDownloaderService: MediaDownloaderService
+  mediaDownloaderService: MediaDownloaderService,
+  costEstimator: CostEstimator
 ) => {
   return {
     name: 'audio_recognition',
@@ -31,8 +37,16 @@ export const createAudioRecognitionTool = (
         log.info(`Processing audio recognition request: ${args.filepath || args.url}`);
         log.verbose('Audio recognition request', JSON.stringify(args));
         
+        const responseSchema = resolveResponseSchema(args.responseSchema, args.schemaPreset);
+        const generationConfig = getGenerationOptions(args);
+        const processOptions: ProcessFileOptions = { responseSchema, generation: generationConfig };
+        const prompt = args.prompt || 'Describe this audio';
+        const modelName = args.modelname || 'gemini-2.5-flash';
+        const cacheKey = getCacheKey({ prompt, model: modelName, responseSchema, generationConfig });
+        
         let filepath: string;
-        let fileData: Buffer;
+        let checksum: string | undefined;
+        let resolvedUrl: string | undefined;
         let mimeType: string;
         let filename: string;
         let sourceUrl: string | undefined;
@@ -41,26 +55,24 @@ export const createAudioRecognitionTool = (
         if (args.url) {
           log.info(`Downloading audio from URL: ${args.url}`);
           
-          // Check if we already have this media in the database
+          // Reuse an analysis of this URL made with the same prompt and options
           if (args.saveToDb) {
-            const existingMedia = await mongodbService.findByUrl(args.url);
-            if (existingMedia && existingMedia.analysis) {
+            const existingAnalysis = args.dryRun ? null : await mongodbService.findAnalysis(args.url, cacheKey);
+            if (existingAnalysis) {
               log.info('Found existing analysis in database, returning cached result');
-              return {
-                content: [
-                  {
-                    type: 'text',
-                    text: existingMedia.analysis.result
-                  }
-                ]
-              };
+              return toRecognitionToolResult({
+                text: existingAnalysis.result,
+                data: existingAnalysis.structured,
+                metadata: existingAnalysis.responseMetadata
+              });
             }
           }
           
           // Download the media
-          const downloadResult = await mediaDownloaderService.downloadMedia(args.url);
+          const downloadResult = await mediaDownloaderService.downloadMedia(args.url, { mediaTypes: ['audio', 'video'] });
           filepath = downloadResult.filepath;
-          fileData = downloadResult.fileData;
+          checksum = downloadResult.checksum;
+          resolvedUrl = downloadResult.resolvedUrl;
           mimeType = downloadResult.mimeType;
           filename = downloadResult.filename;
           sourceUrl = args.url;
@@ -81,48 +93,50 @@ export const createAudioRecognitionTool = (
           }
           
           // Verify file is an audio
-          const ext = path.extname(filepath).toLowerCase();
-          if (!['.mp3', '.wav', '.ogg'].includes(ext)) {
-            throw new Error(`Unsupported audio format: ${ext}. Supported formats are: .mp3, .wav, .ogg`);
+          const format = detectFileFormat(filepath);
+          if (format?.category !== 'audio') {
+            throw new Error(`Unsupported audio format: ${path.extname(filepath).toLowerCase()}. Supported formats are: ${getSupportedExtensions('audio').join(', ')}`);
           }
           
-          // Read file data if we need to save to DB
+          // Name and type if we need to save to DB
           if (args.saveToDb) {
-            fileData = fs.readFileSync(filepath);
             filename = path.basename(filepath);
-            mimeType = `audio/${ext.substring(1)}`; // Simple MIME type inference
+            mimeType = format.mimeType;
           }
         } else {
           throw new Error('Either filepath or url must be provided');
         }
         
-        // Default prompt if not provided
-        const prompt = args.prompt || 'Describe this audio';
-        const modelName = args.modelname || 'gemini-2.5-flash';
-        
         // Upload the file
         log.info('Uploading audio file...');
-        const file = await geminiService.uploadFile(filepath);
-        
-        // Process with Gemini
-        log.info('Generating content from audio...');
-        const result = await geminiService.processFile(file, prompt, modelName);
+        const file = await recognitionProvider.uploadFile(filepath, checksum);
         
-        if (result.isError) {
-          log.error(`Error in audio recognition: ${result.text}`);
+        // Only estimate the cost for dry runs
+        if (args.dryRun) {
+          const estimate = await costEstimator.estimate(recognitionProvider, file, prompt, modelName, processOptions);
+          log.info(`Dry run: estimated ${estimate.inputTokens} input tokens`);
           return {
             content: [
               {
                 type: 'text',
-                text: result.text
+                text: JSON.stringify(estimate, null, 2)
               }
             ],
-            isError: true
+            structuredContent: estimate
           };
         }
         
+        // Process with Gemini
+        log.info('Generating content from audio...');
+        const result = await recognitionProvider.processFile(file, prompt, modelName, processOptions);
+        
+        if (result.isError) {
+          log.error(`Error in audio recognition: ${result.text}`);
+          return toRecognitionToolResult(result);
+        }
+        
         // Save to MongoDB if requested
-        if (args.saveToDb && (fileData! || sourceUrl)) {
+        if (args.saveToDb) {
           try {
             log.info('Saving audio and analysis to MongoDB...');
             
@@ -132,24 +146,35 @@ export const createAudioRecognitionTool = (
                 sourceUrl,
                 filename!,
                 mimeType!,
-                fileData!,
+                filepath,
                 {
+                  cacheKey,
                   prompt,
                   result: result.text,
-                  model: modelName
-                }
+                  model: modelName,
+                  responseSchema,
+                  structured: result.data,
+                  generationConfig,
+                  responseMetadata: result.metadata
+                },
+                resolvedUrl
               );
-            } else if (fileData!) {
+            } else {
               // For file sources, also save with analysis
               await mongodbService.saveMedia(
                 filepath,
                 filename!,
                 mimeType!,
-                fileData!,
+                filepath,
                 {
+                  cacheKey,
                   prompt,
                   result: result.text,
-                  model: modelName
+                  model: modelName,
+                  responseSchema,
+                  structured: result.data,
+                  generationConfig,
+                  responseMetadata: result.metadata
                 }
               );
             }
@@ -164,14 +189,7 @@ export const createAudioRecognitionTool = (
         log.info('Audio recognition completed successfully');
         log.verbose('Audio recognition result', JSON.stringify(result));
         
-        return {
-          content: [
-            {
-              type: 'text',
-              text: result.text
-            }
-          ]
-        };
+        return toRecognitionToolResult(result);
       } catch (error) {
         log.error('Error in audio recognition tool', error);
         const errorMessage = error instanceof Error ? error.message : String(error);
@@ -0,0 +1,163 @@
+/**
+ * Multi-media comparison tool for MCP server
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { createLogger } from '../utils/logger.js';
+import { MongoDBService } from '../services/mongodb.js';
+import { MediaDownloaderService } from '../services/media-downloader.js';
+import { CompareMediaParamsSchema } from '../types/index.js';
+import { detectFileFormat } from '../utils/media-formats.js';
+import { resolveResponseSchema } from '../utils/structured-output.js';
+import { getGenerationOptions } from '../utils/generation-options.js';
+import { toRecognitionToolResult } from '../utils/tool-result.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { CompareMediaInput, CompareMediaParams, LabeledFile, RecognitionProvider } from '../types/index.js';
+
+const log = createLogger('CompareMediaTool');
+
+interface ResolvedInput {
+  filepath: string;
+  mimeType: string;
+  isTemp: boolean;
+}
+
+/**
+ * Get a local file for one input: stored media is written out, URLs are downloaded unless already stored
+ */
+const resolveInput = async (
+  input: CompareMediaInput,
+  mongodbService: MongoDBService,
+  mediaDownloaderService: MediaDownloaderService
+): Promise<ResolvedInput> => {
+  if (input.mediaId || input.url) {
+    const media = input.mediaId
+      ? await mongodbService.findById(input.mediaId)
+      : await mongodbService.findByUrl(input.url!);
+    if (media) {
+      const filepath = mediaDownloaderService.createTempPath(media.filename);
+      try {
+        await mongodbService.writeMediaFile(media, filepath);
+      } catch (error) {
+        mediaDownloaderService.cleanupTempFile(filepath);
+        throw error;
+      }
+      return { filepath, mimeType: media.mimeType, isTemp: true };
+    }
+    if (input.mediaId) {
+      throw new Error(`No stored media found for ${input.mediaId}`);
+    }
+
+    log.info(`Downloading media from URL: ${input.url}`);
+    const downloadResult = await mediaDownloaderService.downloadMedia(input.url!, { mediaTypes: ['image', 'audio', 'video'] });
+    return { filepath: downloadResult.filepath, mimeType: downloadResult.mimeType, isTemp: true };
+  }
+
+  if (input.filepath) {
+    if (!fs.existsSync(input.filepath)) {
+      throw new Error(`Media file not found: ${input.filepath}`);
+    }
+    const format = detectFileFormat(input.filepath);
+    if (!format) {
+      throw new Error(`Unsupported media format: ${path.extname(input.filepath).toLowerCase()}`);
+    }
+    return { filepath: input.filepath, mimeType: format.mimeType, isTemp: false };
+  }
+
+  throw new Error('Each input needs exactly one of filepath, url or mediaId');
+};
+
+export const createCompareMediaTool = (
+  recognitionProvider: RecognitionProvider,
+  mongodbService: MongoDBService,
+  mediaDownloaderService: MediaDownloaderService
+) => {
+  return {
+    name: 'compare_media',
+    description: 'Analyze several images, audio clips or videos in one request, referring to them as Media 1, Media 2 and so on',
+    inputSchema: CompareMediaParamsSchema,
+    callback: async (args: CompareMediaParams): Promise<CallToolResult> => {
+      const tempFilePaths: string[] = [];
+      
+      try {
+        log.info(`Processing comparison request for ${args.inputs.length} inputs`);
+        log.verbose('Comparison request', JSON.stringify(args));
+        
+        const responseSchema = resolveResponseSchema(args.responseSchema, args.schemaPreset);
+        const generationConfig = getGenerationOptions(args);
+        
+        // Resolve and upload in order so labels match the input positions
+        const files: LabeledFile[] = [];
+        for (const [index, input] of args.inputs.entries()) {
+          const label = `Media ${index + 1}:`;
+          if ([input.filepath, input.url, input.mediaId].filter(Boolean).length !== 1) {
+            throw new Error(`${label} give exactly one of filepath, url or mediaId`);
+          }
+          
+          const resolved = await resolveInput(input, mongodbService, mediaDownloaderService);
+          if (resolved.isTemp) {
+            tempFilePaths.push(resolved.filepath); // Mark for cleanup
+          }
+          if (!['image/', 'audio/', 'video/'].some(prefix => resolved.mimeType.startsWith(prefix))) {
+            throw new Error(`${label} not an image, audio or video. MIME type: ${resolved.mimeType}`);
+          }
+          
+          // Clip windows only apply to videos
+          const isVideo = resolved.mimeType.startsWith('video/');
+          if (!isVideo && (input.startOffset !== undefined || input.endOffset !== undefined)) {
+            throw new Error(`${label} startOffset and endOffset only apply to videos`);
+          }
+          if (input.startOffset !== undefined && input.endOffset !== undefined && input.endOffset <= input.startOffset) {
+            throw new Error(`${label} endOffset must be greater than startOffset`);
+          }
+          
+          log.info(`Uploading ${label} ${input.mediaId || input.url || input.filepath}`);
+          const file = await recognitionProvider.uploadFile(resolved.filepath);
+          files.push({
+            label,
+            file,
+            ...(isVideo && (input.startOffset !== undefined || input.endOffset !== undefined) && {
+              videoClip: { startOffset: input.startOffset, endOffset: input.endOffset }
+            })
+          });
+        }
+        
+        const modelName = args.modelname || 'gemini-2.5-flash';
+        const prompt = `The ${files.length} media above are labelled Media 1 to Media ${files.length} in order. ${args.prompt}`;
+        
+        log.info(`Comparing ${files.length} media...`);
+        const result = await recognitionProvider.processFiles(files, prompt, modelName, {
+          responseSchema,
+          generation: generationConfig
+        });
+        
+        if (result.isError) {
+          log.error(`Error in comparison: ${result.text}`);
+        } else {
+          log.info('Comparison completed successfully');
+        }
+        
+        return toRecognitionToolResult(result);
+      } catch (error) {
+        log.error('Error in comparison tool', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error comparing media: ${errorMessage}`
+            }
+          ],
+          isError: true
+        };
+      } finally {
+        // Cleanup temp files written or downloaded for the inputs
+        for (const tempFilePath of tempFilePaths) {
+          mediaDownloaderService.cleanupTempFile(tempFilePath);
+        }
+      }
+    }
+  };
+};
@@ -0,0 +1,200 @@
+/**
+ * Chapter detection tool for MCP server
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { createLogger } from '../utils/logger.js';
+import { MongoDBService } from '../services/mongodb.js';
+import { MediaDownloaderService } from '../services/media-downloader.js';
+import { FfmpegService } from '../services/ffmpeg.js';
+import { DetectChaptersParamsSchema } from '../types/index.js';
+import { detectFileFormat, getSupportedExtensions } from '../utils/media-formats.js';
+import { CHAPTERS_SCHEMA, buildChaptersPrompt, toChapters } from '../utils/chapters.js';
+import { toRecognitionToolResult } from '../utils/tool-result.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { DetectChaptersParams, RecognitionProvider } from '../types/index.js';
+import type { MediaDocument, StoredChapters } from '../services/mongodb.js';
+
+const log = createLogger('DetectChaptersTool');
+
+/**
+ * Check whether stored chapters were detected with the requested model, limit and focus
+ */
+const isSameDetection = (stored: StoredChapters, args: DetectChaptersParams, modelName: string): boolean => {
+  return stored.model === modelName && stored.maxChapters === args.maxChapters && stored.focus === args.focus;
+};
+
+/**
+ * Return chapters as JSON text and structured content
+ */
+const toChaptersResult = (stored: Omit<StoredChapters, 'model' | 'createdAt'>, mediaId?: string): CallToolResult => {
+  const result = {
+    ...(mediaId && { mediaId }),
+    ...(stored.durationSeconds !== undefined && { durationSeconds: stored.durationSeconds }),
+    chapters: stored.chapters
+  };
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(result, null, 2)
+      }
+    ],
+    structuredContent: result
+  };
+};
+
+export const createDetectChaptersTool = (
+  recognitionProvider: RecognitionProvider,
+  mongodbService: MongoDBService,
+  mediaDownloaderService: MediaDownloaderService,
+  ffmpegService: FfmpegService
+) => {
+  return {
+    name: 'detect_chapters',
+    description: 'Split a video into ordered chapters with start and end times, titles and summaries',
+    inputSchema: DetectChaptersParamsSchema,
+    callback: async (args: DetectChaptersParams): Promise<CallToolResult> => {
+      let tempFilePath: string | null = null;
+      
+      try {
+        log.info(`Processing chapter detection request: ${args.filepath || args.url}`);
+        log.verbose('Chapter detection request', JSON.stringify(args));
+        
+        let filepath: string;
+        let checksum: string | undefined;
+        let resolvedUrl: string | undefined;
+        let mimeType: string;
+        let filename: string;
+        let existingMedia: MediaDocument | null = null;
+        const modelName = args.modelname || 'gemini-2.5-flash';
+        
+        // Handle URL input
+        if (args.url) {
+          // Check if we already have chapters for this video, detected the same way
+          if (args.saveToDb) {
+            existingMedia = await mongodbService.findByUrl(args.url);
+            if (existingMedia?.chapters && existingMedia._id && isSameDetection(existingMedia.chapters, args, modelName)) {
+              log.info('Found existing chapters in database, returning cached result');
+              return toChaptersResult(existingMedia.chapters, existingMedia._id.toString());
+            }
+          }
+          
+          // Download the media
+          log.info(`Downloading video from URL: ${args.url}`);
+          const downloadResult = await mediaDownloaderService.downloadMedia(args.url, { mediaTypes: ['video'] });
+          filepath = downloadResult.filepath;
+          checksum = downloadResult.checksum;
+          resolvedUrl = downloadResult.resolvedUrl;
+          mimeType = downloadResult.mimeType;
+          filename = downloadResult.filename;
+          tempFilePath = filepath; // Mark for cleanup
+          
+          // Verify it's a video
+          if (!mimeType.startsWith('video/')) {
+            throw new Error(`URL does not point to a video file. MIME type: ${mimeType}`);
+          }
+        }
+        // Handle file path input
+        else if (args.filepath) {
+          filepath = args.filepath;
+          
+          // Verify file exists
+          if (!fs.existsSync(filepath)) {
+            throw new Error(`Video file not found: ${filepath}`);
+          }
+          
+          // Verify file is a video
+          const format = detectFileFormat(filepath);
+          if (format?.category !== 'video') {
+            throw new Error(`Unsupported video format: ${path.extname(filepath).toLowerCase()}. Supported formats are: ${getSupportedExtensions('video').join(', ')}`);
+          }
+          mimeType = format.mimeType;
+          filename = path.basename(filepath);
+        } else {
+          throw new Error('Either filepath or url must be provided');
+        }
+        
+        // The real duration bounds the chapters; without ffprobe only their order is checked
+        let durationSeconds: number | undefined;
+        if (await ffmpegService.isAvailable()) {
+          durationSeconds = (await ffmpegService.probe(filepath)).durationSeconds;
+        } else {
+          log.warn('ffprobe unavailable, chapters are not checked against the video duration');
+        }
+        
+        // Upload the file - this will handle waiting for video processing
+        log.info('Uploading and processing video file...');
+        const file = await recognitionProvider.uploadFile(filepath, checksum);
+        
+        log.info('Detecting chapters...');
+        const result = await recognitionProvider.processFile(
+          file,
+          buildChaptersPrompt(durationSeconds, args.maxChapters, args.focus),
+          modelName,
+          { responseSchema: CHAPTERS_SCHEMA }
+        );
+        
+        if (result.isError) {
+          log.error(`Error in chapter detection: ${result.text}`);
+          return toRecognitionToolResult(result);
+        }
+        
+        const chapters = toChapters(result.data, durationSeconds);
+        log.info(`Detected ${chapters.length} chapters`);
+        
+        // Store the chapters with the media
+        let mediaId: string | undefined;
+        if (args.saveToDb) {
+          try {
+            const media = existingMedia ?? await mongodbService.saveMedia(
+              args.url ?? filepath,
+              filename,
+              mimeType,
+              filepath,
+              undefined,
+              resolvedUrl
+            );
+            
+            await mongodbService.saveChapters(media._id!, {
+              chapters,
+              durationSeconds,
+              ...(args.maxChapters !== undefined && { maxChapters: args.maxChapters }),
+              ...(args.focus !== undefined && { focus: args.focus }),
+              model: modelName,
+              createdAt: new Date()
+            });
+            mediaId = media._id?.toString();
+          } catch (dbError) {
+            log.error('Failed to save chapters to MongoDB', dbError);
+            // Don't fail the entire operation if DB save fails
+          }
+        }
+        
+        log.info('Chapter detection completed successfully');
+        
+        return toChaptersResult({ chapters, durationSeconds }, mediaId);
+      } catch (error) {
+        log.error('Error in chapter detection tool', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error detecting chapters: ${errorMessage}`
+            }
+          ],
+          isError: true
+        };
+      } finally {
+        // Cleanup temp file if we downloaded it
+        if (tempFilePath) {
+          mediaDownloaderService.cleanupTempFile(tempFilePath);
+        }
+      }
+    }
+  };
+};
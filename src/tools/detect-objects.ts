@@ -0,0 +1,213 @@
+/**
+ * Object detection tool for MCP server
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { createLogger } from '../utils/logger.js';
+import { MediaDownloaderService } from '../services/media-downloader.js';
+import { FfmpegService } from '../services/ffmpeg.js';
+import { DetectObjectsParamsSchema } from '../types/index.js';
+import { detectFileFormat, getSupportedExtensions } from '../utils/media-formats.js';
+import { getImageDimensions } from '../utils/image-size.js';
+import { DETECTION_SCHEMA, buildDetectionPrompt, toDetectedObjects } from '../utils/detections.js';
+import { toRecognitionToolResult } from '../utils/tool-result.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { DetectObjectsParams, DetectedObject, ImageDimensions, RecognitionProvider } from '../types/index.js';
+
+const log = createLogger('DetectObjectsTool');
+
+// Outline colors, assigned per label in order of first appearance
+const BOX_COLORS = ['red', 'lime', 'blue', 'yellow', 'magenta', 'cyan', 'orange', 'white'];
+
+// Leading bytes read for the size; JPEG size markers only follow the EXIF and ICC segments
+const IMAGE_HEADER_BYTES = 128 * 1024;
+
+/**
+ * Read the first bytes of a file
+ */
+const readHead = async (filepath: string, length: number): Promise<Buffer> => {
+  const file = await fs.promises.open(filepath, 'r');
+  try {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await file.read(buffer, 0, length, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await file.close();
+  }
+};
+
+/**
+ * Read the image size from its header, falling back to ffprobe for formats the header reader does not handle
+ */
+const readDimensions = async (
+  ffmpegService: FfmpegService,
+  filepath: string
+): Promise<ImageDimensions> => {
+  const dimensions = getImageDimensions(await readHead(filepath, IMAGE_HEADER_BYTES));
+  if (dimensions) return dimensions;
+
+  if (await ffmpegService.isAvailable()) {
+    const probe = await ffmpegService.probe(filepath);
+    if (probe.width && probe.height) {
+      return { width: probe.width, height: probe.height };
+    }
+  }
+  throw new Error(`Could not read the dimensions of ${path.basename(filepath)}`);
+};
+
+/**
+ * Draw the detections on the image and return it as a PNG
+ */
+const annotateImage = async (
+  ffmpegService: FfmpegService,
+  filepath: string,
+  objects: DetectedObject[],
+  dimensions: ImageDimensions
+): Promise<Buffer> => {
+  const labels = [...new Set(objects.map(object => object.label))];
+  const boxes = objects.map(object => ({
+    ...object.box,
+    color: BOX_COLORS[labels.indexOf(object.label) % BOX_COLORS.length]
+  }));
+  const thickness = Math.max(2, Math.round(Math.min(dimensions.width, dimensions.height) / 200));
+
+  const workDir = ffmpegService.createWorkDir('annotate');
+  try {
+    const outputPath = path.join(workDir, 'annotated.png');
+    await ffmpegService.drawBoxes(filepath, boxes, thickness, outputPath);
+    return fs.readFileSync(outputPath);
+  } finally {
+    ffmpegService.removeWorkDir(workDir);
+  }
+};
+
+export const createDetectObjectsTool = (
+  recognitionProvider: RecognitionProvider,
+  mediaDownloaderService: MediaDownloaderService,
+  ffmpegService: FfmpegService
+) => {
+  return {
+    name: 'detect_objects',
+    description: 'Detect objects in an image and return their labels, pixel bounding boxes and scores as JSON',
+    inputSchema: DetectObjectsParamsSchema,
+    callback: async (args: DetectObjectsParams): Promise<CallToolResult> => {
+      let tempFilePath: string | null = null;
+      
+      try {
+        log.info(`Processing object detection request: ${args.filepath || args.url}`);
+        log.verbose('Object detection request', JSON.stringify(args));
+        
+        let filepath: string;
+        let checksum: string | undefined;
+        
+        // Handle URL input
+        if (args.url) {
+          log.info(`Downloading image from URL: ${args.url}`);
+          const downloadResult = await mediaDownloaderService.downloadMedia(args.url, { mediaTypes: ['image'] });
+          filepath = downloadResult.filepath;
+          checksum = downloadResult.checksum;
+          tempFilePath = filepath; // Mark for cleanup
+          
+          // Verify it's an image
+          if (!downloadResult.mimeType.startsWith('image/')) {
+            throw new Error(`URL does not point to an image file. MIME type: ${downloadResult.mimeType}`);
+          }
+        }
+        // Handle file path input
+        else if (args.filepath) {
+          filepath = args.filepath;
+          
+          // Verify file exists
+          if (!fs.existsSync(filepath)) {
+            throw new Error(`Image file not found: ${filepath}`);
+          }
+          
+          // Verify file is an image
+          const format = detectFileFormat(filepath);
+          if (format?.category !== 'image') {
+            throw new Error(`Unsupported image format: ${path.extname(filepath).toLowerCase()}. Supported formats are: ${getSupportedExtensions('image').join(', ')}`);
+          }
+        } else {
+          throw new Error('Either filepath or url must be provided');
+        }
+        
+        if (args.annotate && !(await ffmpegService.isAvailable())) {
+          throw new Error('Annotated images require ffmpeg to be installed');
+        }
+        
+        const dimensions = await readDimensions(ffmpegService, filepath);
+        log.debug(`Image is ${dimensions.width}x${dimensions.height} pixels`);
+        
+        const modelName = args.modelname || 'gemini-2.5-flash';
+        
+        log.info('Uploading image file...');
+        const file = await recognitionProvider.uploadFile(filepath, checksum);
+        
+        log.info('Detecting objects...');
+        const result = await recognitionProvider.processFile(
+          file,
+          buildDetectionPrompt(args.maxObjects, args.objects),
+          modelName,
+          { responseSchema: DETECTION_SCHEMA }
+        );
+        
+        if (result.isError) {
+          log.error(`Error in object detection: ${result.text}`);
+          return toRecognitionToolResult(result);
+        }
+        
+        const objects = toDetectedObjects(result.data, dimensions, args.maxObjects, args.minScore);
+        log.info(`Detected ${objects.length} objects`);
+        
+        const structuredContent = {
+          width: dimensions.width,
+          height: dimensions.height,
+          objects
+        };
+        
+        const content: CallToolResult['content'] = [
+          {
+            type: 'text',
+            text: JSON.stringify(structuredContent, null, 2)
+          }
+        ];
+        
+        if (args.annotate && objects.length > 0) {
+          const annotated = await annotateImage(ffmpegService, filepath, objects, dimensions);
+          content.push({
+            type: 'image',
+            data: annotated.toString('base64'),
+            mimeType: 'image/png'
+          });
+        }
+        
+        log.info('Object detection completed successfully');
+        
+        return {
+          content,
+          structuredContent,
+          ...(result.metadata && { _meta: { ...result.metadata } })
+        };
+      } catch (error) {
+        log.error('Error in object detection tool', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error detecting objects: ${errorMessage}`
+            }
+          ],
+          isError: true
+        };
+      } finally {
+        // Cleanup temp file if we downloaded it
+        if (tempFilePath) {
+          mediaDownloaderService.cleanupTempFile(tempFilePath);
+        }
+      }
+    }
+  };
+};
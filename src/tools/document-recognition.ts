@@ -0,0 +1,182 @@
+/**
+ * Document recognition tool for MCP server
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { createLogger } from '../utils/logger.js';
+import { MongoDBService } from '../services/mongodb.js';
+import { MediaDownloaderService } from '../services/media-downloader.js';
+import { DocumentRecognitionParamsSchema } from '../types/index.js';
+import { detectFileFormat, getSupportedExtensions } from '../utils/media-formats.js';
+import { buildDocumentPrompt, buildDocumentSchema, renderDocumentPages, toDocumentPages } from '../utils/documents.js';
+import { toRecognitionToolResult } from '../utils/tool-result.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { DocumentPage, DocumentRecognitionParams, DocumentTextFormat, RecognitionProvider } from '../types/index.js';
+import type { MediaDocument } from '../services/mongodb.js';
+
+const log = createLogger('DocumentRecognitionTool');
+
+/**
+ * Return the pages as one text and as structured content
+ */
+const toDocumentResult = (pages: DocumentPage[], format: DocumentTextFormat, mediaId?: string): CallToolResult => {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: renderDocumentPages(pages, format)
+      }
+    ],
+    structuredContent: {
+      ...(mediaId && { mediaId }),
+      format,
+      pageCount: pages.length,
+      pages
+    }
+  };
+};
+
+export const createDocumentRecognitionTool = (
+  recognitionProvider: RecognitionProvider,
+  mongodbService: MongoDBService,
+  mediaDownloaderService: MediaDownloaderService
+) => {
+  return {
+    name: 'document_recognition',
+    description: 'Extract text page by page from PDFs and scanned images such as receipts, as plain text or Markdown with optional tables',
+    inputSchema: DocumentRecognitionParamsSchema,
+    callback: async (args: DocumentRecognitionParams): Promise<CallToolResult> => {
+      let tempFilePath: string | null = null;
+      
+      try {
+        log.info(`Processing document recognition request: ${args.filepath || args.url}`);
+        log.verbose('Document recognition request', JSON.stringify(args));
+        
+        let filepath: string;
+        let checksum: string | undefined;
+        let resolvedUrl: string | undefined;
+        let mimeType: string;
+        let filename: string;
+        let existingMedia: MediaDocument | null = null;
+        
+        // Handle URL input
+        if (args.url) {
+          // Reuse stored text extracted with the same options
+          if (args.saveToDb) {
+            existingMedia = await mongodbService.findByUrl(args.url);
+            const stored = existingMedia?.document;
+            if (stored && existingMedia?._id && stored.format === args.format && stored.extractTables === args.extractTables) {
+              log.info('Found existing document text in database, returning cached result');
+              return toDocumentResult(stored.pages, stored.format, existingMedia._id.toString());
+            }
+          }
+          
+          // Download the document
+          log.info(`Downloading document from URL: ${args.url}`);
+          const downloadResult = await mediaDownloaderService.downloadMedia(args.url, { mediaTypes: ['document', 'image'] });
+          filepath = downloadResult.filepath;
+          checksum = downloadResult.checksum;
+          resolvedUrl = downloadResult.resolvedUrl;
+          mimeType = downloadResult.mimeType;
+          filename = downloadResult.filename;
+          tempFilePath = filepath; // Mark for cleanup
+        }
+        // Handle file path input
+        else if (args.filepath) {
+          filepath = args.filepath;
+          
+          // Verify file exists
+          if (!fs.existsSync(filepath)) {
+            throw new Error(`Document file not found: ${filepath}`);
+          }
+          
+          const format = detectFileFormat(filepath);
+          if (!format) {
+            throw new Error(`Unsupported document format: ${path.extname(filepath).toLowerCase()}. Supported formats are: ${[...getSupportedExtensions('document'), ...getSupportedExtensions('image')].join(', ')}`);
+          }
+          mimeType = format.mimeType;
+          filename = path.basename(filepath);
+        } else {
+          throw new Error('Either filepath or url must be provided');
+        }
+        
+        // Verify it's a PDF or an image
+        if (mimeType !== 'application/pdf' && !mimeType.startsWith('image/')) {
+          throw new Error(`Media is not a PDF or image. MIME type: ${mimeType}`);
+        }
+        
+        const modelName = args.modelname || 'gemini-2.5-flash';
+        
+        // Upload the file - this will handle waiting for document processing
+        log.info('Uploading document file...');
+        const file = await recognitionProvider.uploadFile(filepath, checksum);
+        
+        log.info('Extracting document text...');
+        const result = await recognitionProvider.processFile(
+          file,
+          buildDocumentPrompt(args.format, args.extractTables),
+          modelName,
+          { responseSchema: buildDocumentSchema(args.extractTables) }
+        );
+        
+        if (result.isError) {
+          log.error(`Error in document recognition: ${result.text}`);
+          return toRecognitionToolResult(result);
+        }
+        
+        const pages = toDocumentPages(result.data);
+        log.info(`Extracted text from ${pages.length} pages`);
+        
+        // Store the pages with the media so the text index covers them
+        let mediaId: string | undefined;
+        if (args.saveToDb) {
+          try {
+            const media = existingMedia ?? await mongodbService.saveMedia(
+              args.url ?? filepath,
+              filename,
+              mimeType,
+              filepath,
+              undefined,
+              resolvedUrl
+            );
+            
+            await mongodbService.saveDocument(media._id!, {
+              pages,
+              format: args.format,
+              extractTables: args.extractTables,
+              model: modelName,
+              createdAt: new Date()
+            });
+            mediaId = media._id?.toString();
+          } catch (dbError) {
+            log.error('Failed to save document text to MongoDB', dbError);
+            // Don't fail the entire operation if DB save fails
+          }
+        }
+        
+        log.info('Document recognition completed successfully');
+        
+        return toDocumentResult(pages, args.format, mediaId);
+      } catch (error) {
+        log.error('Error in document recognition tool', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error recognizing document: ${errorMessage}`
+            }
+          ],
+          isError: true
+        };
+      } finally {
+        // Cleanup temp file if we downloaded it
+        if (tempFilePath) {
+          mediaDownloaderService.cleanupTempFile(tempFilePath);
+        }
+      }
+    }
+  };
+};
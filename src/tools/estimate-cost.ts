@@ -0,0 +1,121 @@
+/**
+ * Cost estimation tool for MCP server
+ */
+
+import { createLogger } from '../utils/logger.js';
+import { MediaDownloaderService } from '../services/media-downloader.js';
+import { CostEstimator } from '../services/cost-estimator.js';
+import { VideoSegmenter } from '../services/video-segmenter.js';
+import { FrameSampler } from '../services/frame-sampler.js';
+import { EstimateCostParamsSchema } from '../types/index.js';
+import { detectFileFormat } from '../utils/media-formats.js';
+import { FRAMES_NOTE, getStreamOptions, getVideoClip } from './video-recognition.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { EstimateCostParams, RecognitionProvider } from '../types/index.js';
+import type { CostEstimate } from '../services/cost-estimator.js';
+import * as fs from 'node:fs';
+
+const log = createLogger('EstimateCostTool');
+
+export const createEstimateCostTool = (
+  recognitionProvider: RecognitionProvider,
+  mediaDownloaderService: MediaDownloaderService,
+  costEstimator: CostEstimator,
+  videoSegmenter: VideoSegmenter,
+  frameSampler: FrameSampler
+) => {
+  return {
+    name: 'estimate_cost',
+    description: 'Count input tokens and estimate the price of analyzing media with a Gemini model, without running the analysis',
+    inputSchema: EstimateCostParamsSchema,
+    callback: async (args: EstimateCostParams): Promise<CallToolResult> => {
+      let tempFilePath: string | null = null;
+      
+      try {
+        log.info(`Processing cost estimate request: ${args.filepath || args.url}`);
+        log.verbose('Cost estimate request', JSON.stringify(args));
+        
+        let filepath: string;
+        let checksum: string | undefined;
+        let mimeType: string;
+        
+        // Handle URL input
+        if (args.url) {
+          log.info(`Downloading media from URL: ${args.url}`);
+          const downloadResult = await mediaDownloaderService.downloadMedia(args.url, {
+            stream: getStreamOptions(args)
+          });
+          filepath = downloadResult.filepath;
+          checksum = downloadResult.checksum;
+          mimeType = downloadResult.mimeType;
+          tempFilePath = filepath; // Mark for cleanup
+        }
+        // Handle file path input
+        else if (args.filepath) {
+          filepath = args.filepath;
+          
+          if (!fs.existsSync(filepath)) {
+            throw new Error(`Media file not found: ${filepath}`);
+          }
+          mimeType = detectFileFormat(filepath)?.mimeType ?? 'application/octet-stream';
+        } else {
+          throw new Error('Either filepath or url must be provided');
+        }
+        
+        const prompt = args.prompt || 'Describe this content';
+        const modelName = args.modelname || 'gemini-2.5-flash';
+        const isVideo = mimeType.startsWith('video/');
+        const videoClip = isVideo || args.mode === 'frames' ? getVideoClip(args) : undefined;
+        
+        // Count what video_recognition would send: the sampled frames, each segment of a long video, or the whole file
+        let estimate: CostEstimate;
+        if (args.mode === 'frames') {
+          const frames = await frameSampler.extractFrames(filepath, args.frameCount, args.frameSelection, videoClip);
+          const inputTokens = await recognitionProvider.countImageTokens(frames, `${prompt}\n\n${FRAMES_NOTE}`, modelName);
+          estimate = costEstimator.priceTokens(modelName, 'image/jpeg', inputTokens);
+        } else {
+          const probe = isVideo ? await videoSegmenter.probe(filepath) : undefined;
+          if (probe && videoSegmenter.needsSegmentation(probe, videoClip)) {
+            estimate = await videoSegmenter.estimate(
+              recognitionProvider, costEstimator, filepath, probe, prompt, modelName, { videoClip }
+            );
+          } else {
+            // Upload or reuse the media so the token count covers it
+            const file = await recognitionProvider.uploadFile(filepath, checksum);
+            estimate = await costEstimator.estimate(recognitionProvider, file, prompt, modelName, { videoClip });
+          }
+        }
+        
+        log.info(`Estimated ${estimate.inputTokens} input tokens for ${modelName}`);
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(estimate, null, 2)
+            }
+          ],
+          structuredContent: estimate
+        };
+      } catch (error) {
+        log.error('Error in cost estimate tool', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error estimating cost: ${errorMessage}`
+            }
+          ],
+          isError: true
+        };
+      } finally {
+        // Cleanup temp file if we downloaded it
+        if (tempFilePath) {
+          mediaDownloaderService.cleanupTempFile(tempFilePath);
+        }
+      }
+    }
+  };
+};
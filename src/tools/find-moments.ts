@@ -0,0 +1,191 @@
+/**
+ * Moment search tool for MCP server
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { createLogger } from '../utils/logger.js';
+import { MongoDBService } from '../services/mongodb.js';
+import { MediaDownloaderService } from '../services/media-downloader.js';
+import { FfmpegService } from '../services/ffmpeg.js';
+import { FrameSampler } from '../services/frame-sampler.js';
+import { FindMomentsParamsSchema } from '../types/index.js';
+import { detectFileFormat, getSupportedExtensions } from '../utils/media-formats.js';
+import { MOMENTS_SCHEMA, buildMomentsPrompt, toMoments } from '../utils/moments.js';
+import { formatTimestamp } from '../utils/timestamps.js';
+import { toRecognitionToolResult } from '../utils/tool-result.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { FindMomentsParams, RecognitionProvider } from '../types/index.js';
+import type { MediaDocument } from '../services/mongodb.js';
+
+const log = createLogger('FindMomentsTool');
+
+export const createFindMomentsTool = (
+  recognitionProvider: RecognitionProvider,
+  mongodbService: MongoDBService,
+  mediaDownloaderService: MediaDownloaderService,
+  ffmpegService: FfmpegService,
+  frameSampler: FrameSampler
+) => {
+  return {
+    name: 'find_moments',
+    description: 'Find the moments in a video that match a natural-language query, with timestamps, confidence and optional thumbnails',
+    inputSchema: FindMomentsParamsSchema,
+    callback: async (args: FindMomentsParams): Promise<CallToolResult> => {
+      let tempFilePath: string | null = null;
+      
+      try {
+        log.info(`Processing moment search request: ${args.mediaId || args.filepath || args.url}`);
+        log.verbose('Moment search request', JSON.stringify(args));
+        
+        let filepath: string;
+        let mimeType: string;
+        let storedMedia: MediaDocument | null = null;
+        
+        // Stored media is written out from the database instead of being downloaded again
+        if (args.mediaId) {
+          storedMedia = await mongodbService.findById(args.mediaId);
+          if (!storedMedia) {
+            throw new Error(`No stored media found for ${args.mediaId}`);
+          }
+        } else if (args.url) {
+          storedMedia = await mongodbService.findByUrl(args.url);
+        }
+        
+        if (storedMedia) {
+          log.info(`Using stored media: ${storedMedia._id}`);
+          filepath = mediaDownloaderService.createTempPath(storedMedia.filename);
+          mimeType = storedMedia.mimeType;
+          tempFilePath = filepath; // Mark for cleanup
+          await mongodbService.writeMediaFile(storedMedia, filepath);
+        }
+        // Handle URL input
+        else if (args.url) {
+          log.info(`Downloading video from URL: ${args.url}`);
+          const downloadResult = await mediaDownloaderService.downloadMedia(args.url, { mediaTypes: ['video'] });
+          filepath = downloadResult.filepath;
+          mimeType = downloadResult.mimeType;
+          tempFilePath = filepath; // Mark for cleanup
+        }
+        // Handle file path input
+        else if (args.filepath) {
+          filepath = args.filepath;
+          
+          // Verify file exists
+          if (!fs.existsSync(filepath)) {
+            throw new Error(`Video file not found: ${filepath}`);
+          }
+          
+          const format = detectFileFormat(filepath);
+          if (!format) {
+            throw new Error(`Unsupported video format: ${path.extname(filepath).toLowerCase()}. Supported formats are: ${getSupportedExtensions('video').join(', ')}`);
+          }
+          mimeType = format.mimeType;
+        } else if (args.mediaId) {
+          throw new Error(`Stored media has no file data: ${args.mediaId}`);
+        } else {
+          throw new Error('Either filepath, url or mediaId must be provided');
+        }
+        
+        // Verify it's a video
+        if (!mimeType.startsWith('video/')) {
+          throw new Error(`Media is not a video. MIME type: ${mimeType}`);
+        }
+        
+        // The duration bounds the moments; thumbnails need ffmpeg as well
+        let durationSeconds: number | undefined;
+        if (await ffmpegService.isAvailable()) {
+          durationSeconds = (await ffmpegService.probe(filepath)).durationSeconds;
+        } else if (args.thumbnails) {
+          throw new Error('Thumbnails require ffmpeg and ffprobe to be installed');
+        } else {
+          log.warn('ffprobe unavailable, moments are not checked against the video duration');
+        }
+        
+        const modelName = args.modelname || 'gemini-2.5-flash';
+        
+        // Upload reuses the cached Gemini file, so repeated queries against one video don't re-upload it
+        log.info('Uploading and processing video file...');
+        const file = await recognitionProvider.uploadFile(filepath);
+        
+        log.info(`Searching for moments: ${args.query}`);
+        const result = await recognitionProvider.processFile(
+          file,
+          buildMomentsPrompt(args.query, args.maxResults, durationSeconds),
+          modelName,
+          { responseSchema: MOMENTS_SCHEMA }
+        );
+        
+        if (result.isError) {
+          log.error(`Error in moment search: ${result.text}`);
+          return toRecognitionToolResult(result);
+        }
+        
+        const moments = toMoments(result.data, args.maxResults, durationSeconds);
+        log.info(`Found ${moments.length} moments`);
+        
+        const mediaId = storedMedia?._id?.toString();
+        const structuredContent = {
+          ...(mediaId && { mediaId }),
+          query: args.query,
+          ...(durationSeconds !== undefined && { durationSeconds }),
+          moments
+        };
+        
+        const content: CallToolResult['content'] = [
+          {
+            type: 'text',
+            text: JSON.stringify(structuredContent, null, 2)
+          }
+        ];
+        
+        // One frame from the middle of each moment
+        if (args.thumbnails && moments.length > 0) {
+          const frames = await frameSampler.extractFramesAt(
+            filepath,
+            moments.map(moment => (moment.start + moment.end) / 2)
+          );
+          for (const [index, frame] of frames.entries()) {
+            content.push(
+              {
+                type: 'text',
+                text: `Moment ${index + 1} (${formatTimestamp(moments[index].start)} - ${formatTimestamp(moments[index].end)}):`
+              },
+              {
+                type: 'image',
+                data: frame.data.toString('base64'),
+                mimeType: frame.mimeType
+              }
+            );
+          }
+        }
+        
+        log.info('Moment search completed successfully');
+        
+        return {
+          content,
+          structuredContent,
+          ...(result.metadata && { _meta: { ...result.metadata } })
+        };
+      } catch (error) {
+        log.error('Error in moment search tool', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error finding moments: ${errorMessage}`
+            }
+          ],
+          isError: true
+        };
+      } finally {
+        // Cleanup temp file if we downloaded or wrote it
+        if (tempFilePath) {
+          mediaDownloaderService.cleanupTempFile(tempFilePath);
+        }
+      }
+    }
+  };
+};
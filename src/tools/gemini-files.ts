@@ -0,0 +1,119 @@
+/**
+ * Remote file management tools for MCP server
+ */
+
+import { createLogger } from '../utils/logger.js';
+import { FileNameParamsSchema } from '../types/index.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { FileNameParams, RecognitionProvider } from '../types/index.js';
+
+const log = createLogger('GeminiFilesTools');
+
+/**
+ * Build an error result for the file tools
+ */
+const toErrorResult = (action: string, error: unknown): CallToolResult => {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `Error ${action}: ${errorMessage}`
+      }
+    ],
+    isError: true
+  };
+};
+
+export const createListFilesTool = (recognitionProvider: RecognitionProvider) => {
+  return {
+    name: 'list_gemini_files',
+    description: 'List every media file in the Gemini API project, including uploads by other clients, with storage quota usage',
+    callback: async (): Promise<CallToolResult> => {
+      try {
+        log.info('Listing remote files');
+        
+        const files = await recognitionProvider.listFiles();
+        const totalBytes = files.reduce((sum, file) => sum + (file.sizeBytes ?? 0), 0);
+        const quotaBytes = recognitionProvider.storageQuotaBytes;
+        
+        const summary = {
+          fileCount: files.length,
+          totalBytes,
+          quotaBytes,
+          quotaUsedPercent: Number(((totalBytes / quotaBytes) * 100).toFixed(2)),
+          files
+        };
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(summary, null, 2)
+            }
+          ],
+          structuredContent: summary
+        };
+      } catch (error) {
+        log.error('Error listing remote files', error);
+        return toErrorResult('listing files', error);
+      }
+    }
+  };
+};
+
+export const createGetFileTool = (recognitionProvider: RecognitionProvider) => {
+  return {
+    name: 'get_gemini_file',
+    description: 'Show details of an uploaded Gemini file, including its state, size and expiry',
+    inputSchema: FileNameParamsSchema,
+    callback: async (args: FileNameParams): Promise<CallToolResult> => {
+      try {
+        log.info(`Inspecting remote file: ${args.name}`);
+        
+        const file = await recognitionProvider.describeFile(args.name);
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(file, null, 2)
+            }
+          ],
+          structuredContent: { ...file }
+        };
+      } catch (error) {
+        log.error('Error inspecting remote file', error);
+        return toErrorResult('inspecting file', error);
+      }
+    }
+  };
+};
+
+export const createDeleteFileTool = (recognitionProvider: RecognitionProvider) => {
+  return {
+    name: 'delete_gemini_file',
+    description: 'Delete an uploaded Gemini file immediately and drop it from the local upload cache',
+    inputSchema: FileNameParamsSchema,
+    callback: async (args: FileNameParams): Promise<CallToolResult> => {
+      try {
+        log.info(`Deleting remote file: ${args.name}`);
+        
+        await recognitionProvider.deleteFile(args.name);
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Deleted file: ${args.name}`
+            }
+          ]
+        };
+      } catch (error) {
+        log.error('Error deleting remote file', error);
+        return toErrorResult('deleting file', error);
+      }
+    }
+  };
+};
@@ -4,21 +4,27 @@
 
 import { z } from 'zod';
 import { createLogger } from '../utils/logger.js';
-import { GeminiService } from '../services/gemini.js';
 import { MongoDBService } from '../services/mongodb.js';
 import { MediaDownloaderService } from '../services/media-downloader.js';
+import { CostEstimator } from '../services/cost-estimator.js';
 import { ImageRecognitionParamsSchema } from '../types/index.js';
+import { resolveResponseSchema } from '../utils/structured-output.js';
+import { toRecognitionToolResult } from '../utils/tool-result.js';
+import { detectFileFormat, getSupportedExtensions } from '../utils/media-formats.js';
+import { getGenerationOptions } from '../utils/generation-options.js';
+import { getCacheKey } from '../utils/cache-key.js';
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import type { ImageRecognitionParams } from '../types/index.js';
+import type { ImageRecognitionParams, RecognitionProvider, ProcessFileOptions } from '../types/index.js';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 
 const log = createLogger('ImageRecognitionTool');
 
 export const createImageRecognitionTool = (
-  geminiService: GeminiService,
+  recognitionProvider: RecognitionProvider,
   mongodbService: MongoDBService,
-  mediaDownloaderService: MediaDownloaderService
+  mediaDownloaderService: MediaDownloaderService,
+  costEstimator: CostEstimator
 ) => {
   return {
     name: 'image_recognition',
@@ -31,8 +37,16 @@ export const createImageRecognitionTool = (
         log.info(`Processing image recognition request: ${args.filepath || args.url}`);
         log.verbose('Image recognition request', JSON.stringify(args));
         
+        const responseSchema = resolveResponseSchema(args.responseSchema, args.schemaPreset);
+        const generationConfig = getGenerationOptions(args);
+        const processOptions: ProcessFileOptions = { responseSchema, generation: generationConfig };
+        const prompt = args.prompt || 'Describe this image';
+        const modelName = args.modelname || 'gemini-2.5-flash';
+        const cacheKey = getCacheKey({ prompt, model: modelName, responseSchema, generationConfig });
+        
         let filepath: string;
-        let fileData: Buffer;
+        let checksum: string | undefined;
+        let resolvedUrl: string | undefined;
         let mimeType: string;
         let filename: string;
         let sourceUrl: string | undefined;
@@ -41,24 +55,22 @@ export const createImageRecognitionTool = (
         if (args.url) {
           log.info(`Downloading image from URL: ${args.url}`);
           
-          // Check if we already have this media in the database
-          const existingMedia = await mongodbService.findByUrl(args.url);
-          if (existingMedia && existingMedia.analysis) {
+          // Reuse an analysis of this URL made with the same prompt and options
+          const existingAnalysis = args.dryRun ? null : await mongodbService.findAnalysis(args.url, cacheKey);
+          if (existingAnalysis) {
             log.info('Found existing analysis in database, returning cached result');
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: existingMedia.analysis.result
-                }
-              ]
-            };
+            return toRecognitionToolResult({
+              text: existingAnalysis.result,
+              data: existingAnalysis.structured,
+              metadata: existingAnalysis.responseMetadata
+            });
           }
           
           // Download the media
-          const downloadResult = await mediaDownloaderService.downloadMedia(args.url);
+          const downloadResult = await mediaDownloaderService.downloadMedia(args.url, { mediaTypes: ['image'] });
           filepath = downloadResult.filepath;
-          fileData = downloadResult.fileData;
+          checksum = downloadResult.checksum;
+          resolvedUrl = downloadResult.resolvedUrl;
           mimeType = downloadResult.mimeType;
           filename = downloadResult.filename;
           sourceUrl = args.url;
@@ -79,44 +91,46 @@ export const createImageRecognitionTool = (
           }
           
           // Verify file is an image
-          const ext = path.extname(filepath).toLowerCase();
-          if (!['.jpg', '.jpeg', '.png', '.webp'].includes(ext)) {
-            throw new Error(`Unsupported image format: ${ext}. Supported formats are: .jpg, .jpeg, .png, .webp`);
+          const format = detectFileFormat(filepath);
+          if (format?.category !== 'image') {
+            throw new Error(`Unsupported image format: ${path.extname(filepath).toLowerCase()}. Supported formats are: ${getSupportedExtensions('image').join(', ')}`);
           }
           
-          // Read file data to save to DB
-          fileData = fs.readFileSync(filepath);
+          // Name and type to save to DB
           filename = path.basename(filepath);
-          mimeType = `image/${ext.substring(1).replace('jpg', 'jpeg')}`; // Simple MIME type inference
+          mimeType = format.mimeType;
         } else {
           throw new Error('Either filepath or url must be provided');
         }
         
-        // Default prompt if not provided
-        const prompt = args.prompt || 'Describe this image';
-        const modelName = args.modelname || 'gemini-2.5-flash';
-        
         // Upload the file
         log.info('Uploading image file...');
-        const file = await geminiService.uploadFile(filepath);
-        
-        // Process with Gemini
-        log.info('Generating content from image...');
-        const result = await geminiService.processFile(file, prompt, modelName);
+        const file = await recognitionProvider.uploadFile(filepath, checksum);
         
-        if (result.isError) {
-          log.error(`Error in image recognition: ${result.text}`);
+        // Only estimate the cost for dry runs
+        if (args.dryRun) {
+          const estimate = await costEstimator.estimate(recognitionProvider, file, prompt, modelName, processOptions);
+          log.info(`Dry run: estimated ${estimate.inputTokens} input tokens`);
           return {
             content: [
               {
                 type: 'text',
-                text: result.text
+                text: JSON.stringify(estimate, null, 2)
               }
             ],
-            isError: true
+            structuredContent: estimate
           };
         }
         
+        // Process with Gemini
+        log.info('Generating content from image...');
+        const result = await recognitionProvider.processFile(file, prompt, modelName, processOptions);
+        
+        if (result.isError) {
+          log.error(`Error in image recognition: ${result.text}`);
+          return toRecognitionToolResult(result);
+        }
+        
         // Save to MongoDB
         try {
           log.info('Saving image and analysis to MongoDB...');
@@ -127,12 +141,18 @@ export const createImageRecognitionTool = (
               sourceUrl,
               filename!,
               mimeType!,
-              fileData!,
+              filepath,
               {
+                cacheKey,
                 prompt,
                 result: result.text,
-                model: modelName
-              }
+                model: modelName,
+                responseSchema,
+                structured: result.data,
+                generationConfig,
+                responseMetadata: result.metadata
+              },
+              resolvedUrl
             );
           } else {
             // For file sources, also save with analysis
@@ -140,11 +160,16 @@ export const createImageRecognitionTool = (
               filepath,
               filename!,
               mimeType!,
-              fileData!,
+              filepath,
               {
+                cacheKey,
                 prompt,
                 result: result.text,
-                model: modelName
+                model: modelName,
+                responseSchema,
+                structured: result.data,
+                generationConfig,
+                responseMetadata: result.metadata
               }
             );
           }
@@ -158,14 +183,7 @@ export const createImageRecognitionTool = (
         log.info('Image recognition completed successfully');
         log.verbose('Image recognition result', JSON.stringify(result));
         
-        return {
-          content: [
-            {
-              type: 'text',
-              text: result.text
-            }
-          ]
-        };
+        return toRecognitionToolResult(result);
       } catch (error) {
         log.error('Error in image recognition tool', error);
         const errorMessage = error instanceof Error ? error.message : String(error);
@@ -0,0 +1,191 @@
+/**
+ * Content moderation tool for MCP server
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { createLogger } from '../utils/logger.js';
+import { MongoDBService } from '../services/mongodb.js';
+import { MediaDownloaderService } from '../services/media-downloader.js';
+import { ModerateMediaParamsSchema, SafetyCategorySchema } from '../types/index.js';
+import { detectFileFormat, getSupportedExtensions } from '../utils/media-formats.js';
+import { buildModerationPrompt, buildModerationSchema, buildPolicy, toModerationVerdicts } from '../utils/moderation.js';
+import { toRecognitionToolResult } from '../utils/tool-result.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { GenerationOptions, ModerateMediaParams, RecognitionProvider } from '../types/index.js';
+import type { ModerationRecord } from '../services/mongodb.js';
+
+const log = createLogger('ModerateMediaTool');
+
+// Gemini's own filters are relaxed so it can describe the content it is asked to judge
+const MODERATION_GENERATION: GenerationOptions = {
+  safetySettings: Object.fromEntries(SafetyCategorySchema.options.map(category => [category, 'BLOCK_NONE' as const]))
+};
+
+export const createModerateMediaTool = (
+  recognitionProvider: RecognitionProvider,
+  mongodbService: MongoDBService,
+  mediaDownloaderService: MediaDownloaderService
+) => {
+  return {
+    name: 'moderate_media',
+    description: 'Check images, audio or video against a moderation policy and return per-category verdicts with severities',
+    inputSchema: ModerateMediaParamsSchema,
+    callback: async (args: ModerateMediaParams): Promise<CallToolResult> => {
+      let tempFilePath: string | null = null;
+      
+      try {
+        log.info(`Processing moderation request: ${args.filepath || args.url}`);
+        log.verbose('Moderation request', JSON.stringify(args));
+        
+        const policy = buildPolicy(args.categories, args.customCategories);
+        if (policy.length === 0) {
+          throw new Error('At least one category must be given');
+        }
+        
+        let filepath: string;
+        let checksum: string | undefined;
+        let resolvedUrl: string | undefined;
+        let mimeType: string;
+        let filename: string;
+        
+        // Handle URL input
+        if (args.url) {
+          log.info(`Downloading media from URL: ${args.url}`);
+          const downloadResult = await mediaDownloaderService.downloadMedia(args.url, { mediaTypes: ['image', 'audio', 'video'] });
+          filepath = downloadResult.filepath;
+          checksum = downloadResult.checksum;
+          resolvedUrl = downloadResult.resolvedUrl;
+          mimeType = downloadResult.mimeType;
+          filename = downloadResult.filename;
+          tempFilePath = filepath; // Mark for cleanup
+        }
+        // Handle file path input
+        else if (args.filepath) {
+          filepath = args.filepath;
+          
+          // Verify file exists
+          if (!fs.existsSync(filepath)) {
+            throw new Error(`Media file not found: ${filepath}`);
+          }
+          
+          const format = detectFileFormat(filepath);
+          if (!format) {
+            throw new Error(`Unsupported media format: ${path.extname(filepath).toLowerCase()}. Supported formats are: ${[...getSupportedExtensions('image'), ...getSupportedExtensions('audio'), ...getSupportedExtensions('video')].join(', ')}`);
+          }
+          mimeType = format.mimeType;
+          filename = path.basename(filepath);
+        } else {
+          throw new Error('Either filepath or url must be provided');
+        }
+        
+        // Verify it's an image, audio or video
+        if (!['image/', 'audio/', 'video/'].some(prefix => mimeType.startsWith(prefix))) {
+          throw new Error(`Media is not an image, audio or video. MIME type: ${mimeType}`);
+        }
+        const timed = !mimeType.startsWith('image/');
+        
+        const modelName = args.modelname || 'gemini-2.5-flash';
+        
+        // Upload the file - this will handle waiting for video processing
+        log.info('Uploading media file...');
+        const file = await recognitionProvider.uploadFile(filepath, checksum);
+        
+        log.info(`Moderating against ${policy.length} categories...`);
+        const result = await recognitionProvider.processFile(
+          file,
+          buildModerationPrompt(policy, timed),
+          modelName,
+          { responseSchema: buildModerationSchema(policy, timed), generation: MODERATION_GENERATION }
+        );
+        
+        // A block is itself a verdict; anything else is a failure
+        const blocked = result.isError && result.errorType === 'blocked';
+        if (result.isError && !blocked) {
+          log.error(`Error in moderation: ${result.text}`);
+          return toRecognitionToolResult(result);
+        }
+        
+        const blockReason = blocked ? result.metadata?.blockReason ?? result.metadata?.finishReason ?? 'blocked' : undefined;
+        const verdicts = toModerationVerdicts(
+          blocked ? undefined : result.data,
+          policy,
+          args.flagSeverity,
+          timed,
+          result.metadata?.safetyRatings,
+          blocked ? `Gemini blocked the request (${blockReason}); only its safety ratings were used` : undefined
+        );
+        const flagged = blocked || verdicts.some(verdict => verdict.flagged);
+        log.info(`Moderation verdict: ${flagged ? 'flagged' : 'clean'}`);
+        
+        // Keep every run for auditing
+        let mediaId: string | undefined;
+        if (args.saveToDb) {
+          try {
+            const media = (args.url ? await mongodbService.findByUrl(args.url) : null) ?? await mongodbService.saveMedia(
+              args.url ?? filepath,
+              filename,
+              mimeType,
+              filepath,
+              undefined,
+              resolvedUrl
+            );
+            
+            const record: ModerationRecord = {
+              policy,
+              flagSeverity: args.flagSeverity,
+              verdicts,
+              flagged,
+              ...(blockReason && { blockReason }),
+              model: modelName,
+              createdAt: new Date()
+            };
+            await mongodbService.appendModeration(media._id!, record);
+            mediaId = media._id?.toString();
+          } catch (dbError) {
+            log.error('Failed to save moderation verdicts to MongoDB', dbError);
+            // Don't fail the entire operation if DB save fails
+          }
+        }
+        
+        log.info('Moderation completed successfully');
+        
+        const structuredContent = {
+          ...(mediaId && { mediaId }),
+          flagged,
+          ...(blockReason && { blockReason }),
+          verdicts
+        };
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(structuredContent, null, 2)
+            }
+          ],
+          structuredContent,
+          ...(result.metadata && { _meta: { ...result.metadata } })
+        };
+      } catch (error) {
+        log.error('Error in moderation tool', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error moderating media: ${errorMessage}`
+            }
+          ],
+          isError: true
+        };
+      } finally {
+        // Cleanup temp file if we downloaded it
+        if (tempFilePath) {
+          mediaDownloaderService.cleanupTempFile(tempFilePath);
+        }
+      }
+    }
+  };
+};
@@ -0,0 +1,262 @@
+/**
+ * Transcription tools for MCP server
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { createLogger } from '../utils/logger.js';
+import { MongoDBService } from '../services/mongodb.js';
+import { MediaDownloaderService } from '../services/media-downloader.js';
+import { FfmpegService } from '../services/ffmpeg.js';
+import { TranscribeParamsSchema, GetTranscriptParamsSchema } from '../types/index.js';
+import { detectFileFormat, getSupportedExtensions } from '../utils/media-formats.js';
+import { TRANSCRIPTION_SCHEMA, buildTranscriptionPrompt, renderTranscript, toTranscript } from '../utils/subtitles.js';
+import { toRecognitionToolResult } from '../utils/tool-result.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type {
+  GetTranscriptParams,
+  RecognitionProvider,
+  SubtitleFormat,
+  TranscribeParams,
+  Transcript
+} from '../types/index.js';
+import type { MediaDocument, StoredTranscript } from '../services/mongodb.js';
+
+const log = createLogger('TranscribeTool');
+
+/**
+ * Check whether a stored transcript was made with the requested model, language hint and speaker labelling
+ */
+const isSameTranscription = (stored: StoredTranscript, args: TranscribeParams, modelName: string): boolean => {
+  return stored.model === modelName && stored.languageHint === args.language && stored.speakerLabels === args.speakerLabels;
+};
+
+/**
+ * Return a transcript rendered in the requested format
+ */
+const toTranscriptResult = (
+  transcript: Transcript,
+  format: SubtitleFormat,
+  mediaId?: string,
+  subtitle: string = renderTranscript(transcript, format)
+): CallToolResult => {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: subtitle
+      }
+    ],
+    structuredContent: {
+      ...(mediaId && { mediaId }),
+      format,
+      ...(transcript.language && { language: transcript.language }),
+      segments: transcript.segments
+    }
+  };
+};
+
+export const createTranscribeTool = (
+  recognitionProvider: RecognitionProvider,
+  mongodbService: MongoDBService,
+  mediaDownloaderService: MediaDownloaderService,
+  ffmpegService: FfmpegService
+) => {
+  return {
+    name: 'transcribe',
+    description: 'Transcribe speech in audio or video with timestamps and speaker labels, as SRT, WebVTT or JSON',
+    inputSchema: TranscribeParamsSchema,
+    callback: async (args: TranscribeParams): Promise<CallToolResult> => {
+      let tempFilePath: string | null = null;
+      let workDir: string | null = null;
+      
+      try {
+        log.info(`Processing transcription request: ${args.filepath || args.url}`);
+        log.verbose('Transcription request', JSON.stringify(args));
+        
+        let filepath: string;
+        let checksum: string | undefined;
+        let resolvedUrl: string | undefined;
+        let mimeType: string;
+        let filename: string;
+        let existingMedia: MediaDocument | null = null;
+        const modelName = args.modelname || 'gemini-2.5-flash';
+        
+        // Handle URL input
+        if (args.url) {
+          // Reuse a stored transcript made the same way, rendering it in the requested format
+          if (args.saveToDb) {
+            existingMedia = await mongodbService.findByUrl(args.url);
+            if (existingMedia?.transcript && existingMedia._id && isSameTranscription(existingMedia.transcript, args, modelName)) {
+              log.info('Found existing transcript in database, returning cached result');
+              return toTranscriptResult(existingMedia.transcript, args.format, existingMedia._id.toString());
+            }
+          }
+          
+          // Download the media
+          log.info(`Downloading media from URL: ${args.url}`);
+          const downloadResult = await mediaDownloaderService.downloadMedia(args.url, { mediaTypes: ['audio', 'video'] });
+          filepath = downloadResult.filepath;
+          checksum = downloadResult.checksum;
+          resolvedUrl = downloadResult.resolvedUrl;
+          mimeType = downloadResult.mimeType;
+          filename = downloadResult.filename;
+          tempFilePath = filepath; // Mark for cleanup
+        }
+        // Handle file path input
+        else if (args.filepath) {
+          filepath = args.filepath;
+          
+          // Verify file exists
+          if (!fs.existsSync(filepath)) {
+            throw new Error(`Media file not found: ${filepath}`);
+          }
+          
+          const format = detectFileFormat(filepath);
+          if (!format) {
+            throw new Error(`Unsupported media format: ${path.extname(filepath).toLowerCase()}. Supported formats are: ${[...getSupportedExtensions('audio'), ...getSupportedExtensions('video')].join(', ')}`);
+          }
+          mimeType = format.mimeType;
+          filename = path.basename(filepath);
+        } else {
+          throw new Error('Either filepath or url must be provided');
+        }
+        
+        // Verify it has sound
+        if (!mimeType.startsWith('audio/') && !mimeType.startsWith('video/')) {
+          throw new Error(`Media is not audio or video. MIME type: ${mimeType}`);
+        }
+        
+        // Send only the audio track of videos when ffmpeg is available
+        let uploadPath = filepath;
+        if (mimeType.startsWith('video/') && await ffmpegService.isAvailable()) {
+          workDir = ffmpegService.createWorkDir('audio');
+          uploadPath = path.join(workDir, 'audio.mp3');
+          log.info('Extracting audio track from video...');
+          await ffmpegService.extractAudio(filepath, uploadPath);
+        }
+        
+        log.info('Uploading media file...');
+        const file = await recognitionProvider.uploadFile(uploadPath, uploadPath === filepath ? checksum : undefined);
+        
+        log.info('Transcribing...');
+        const result = await recognitionProvider.processFile(
+          file,
+          buildTranscriptionPrompt(args.language, args.speakerLabels),
+          modelName,
+          { responseSchema: TRANSCRIPTION_SCHEMA }
+        );
+        
+        if (result.isError) {
+          log.error(`Error in transcription: ${result.text}`);
+          return toRecognitionToolResult(result);
+        }
+        
+        const transcript = toTranscript(result.data);
+        const subtitle = renderTranscript(transcript, args.format);
+        log.info(`Transcribed ${transcript.segments.length} segments`);
+        
+        // Store the transcript with the media
+        let mediaId: string | undefined;
+        if (args.saveToDb) {
+          try {
+            const media = existingMedia ?? await mongodbService.saveMedia(
+              args.url ?? filepath,
+              filename,
+              mimeType,
+              filepath,
+              undefined,
+              resolvedUrl
+            );
+            
+            const storedTranscript: StoredTranscript = {
+              ...transcript,
+              format: args.format,
+              subtitle,
+              model: modelName,
+              ...(args.language && { languageHint: args.language }),
+              speakerLabels: args.speakerLabels,
+              createdAt: new Date()
+            };
+            await mongodbService.saveTranscript(media._id!, storedTranscript);
+            mediaId = media._id?.toString();
+          } catch (dbError) {
+            log.error('Failed to save transcript to MongoDB', dbError);
+            // Don't fail the entire operation if DB save fails
+          }
+        }
+        
+        log.info('Transcription completed successfully');
+        
+        return toTranscriptResult(transcript, args.format, mediaId, subtitle);
+      } catch (error) {
+        log.error('Error in transcription tool', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error transcribing media: ${errorMessage}`
+            }
+          ],
+          isError: true
+        };
+      } finally {
+        // Cleanup temp files
+        if (tempFilePath) {
+          mediaDownloaderService.cleanupTempFile(tempFilePath);
+        }
+        if (workDir) {
+          ffmpegService.removeWorkDir(workDir);
+        }
+      }
+    }
+  };
+};
+
+export const createGetTranscriptTool = (mongodbService: MongoDBService) => {
+  return {
+    name: 'get_transcript',
+    description: 'Retrieve a stored transcript as SRT, WebVTT or JSON',
+    inputSchema: GetTranscriptParamsSchema,
+    callback: async (args: GetTranscriptParams): Promise<CallToolResult> => {
+      try {
+        log.info(`Retrieving transcript for: ${args.mediaId || args.url}`);
+        
+        const media = args.mediaId
+          ? await mongodbService.findById(args.mediaId)
+          : args.url
+            ? await mongodbService.findByUrl(args.url)
+            : null;
+        
+        if (!media?.transcript) {
+          throw new Error(`No stored transcript found for ${args.mediaId || args.url}`);
+        }
+        
+        // The stored file is returned as is when no other format is requested
+        const { transcript } = media;
+        const format = args.format ?? transcript.format;
+        return toTranscriptResult(
+          transcript,
+          format,
+          media._id?.toString(),
+          format === transcript.format ? transcript.subtitle : undefined
+        );
+      } catch (error) {
+        log.error('Error retrieving transcript', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error retrieving transcript: ${errorMessage}`
+            }
+          ],
+          isError: true
+        };
+      }
+    }
+  };
+};
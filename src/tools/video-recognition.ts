@@ -4,21 +4,92 @@
 
 import { z } from 'zod';
 import { createLogger } from '../utils/logger.js';
-import { GeminiService } from '../services/gemini.js';
 import { MongoDBService } from '../services/mongodb.js';
 import { MediaDownloaderService } from '../services/media-downloader.js';
+import { CostEstimator } from '../services/cost-estimator.js';
+import { VideoSegmenter } from '../services/video-segmenter.js';
+import { FrameSampler } from '../services/frame-sampler.js';
 import { VideoRecognitionParamsSchema, FileState } from '../types/index.js';
+import { resolveResponseSchema } from '../utils/structured-output.js';
+import { toRecognitionToolResult } from '../utils/tool-result.js';
+import { detectFileFormat, getSupportedExtensions } from '../utils/media-formats.js';
+import { getGenerationOptions } from '../utils/generation-options.js';
+import { getCacheKey } from '../utils/cache-key.js';
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import type { VideoRecognitionParams } from '../types/index.js';
+import type {
+  VideoRecognitionParams,
+  VideoClip,
+  RecognitionProvider,
+  ProcessFileOptions,
+  GeminiResponse,
+  SegmentAnalysis,
+  FrameSampling,
+  StreamIngest,
+  StreamOptions
+} from '../types/index.js';
+import type { CostEstimate } from '../services/cost-estimator.js';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 
 const log = createLogger('VideoRecognitionTool');
 
+// Appended to the prompt so the model reads the frames as one video
+export const FRAMES_NOTE = 'The images are frames from one video, in order, each preceded by its timestamp.';
+
+/**
+ * Extract the requested clip window, if any
+ */
+export const getVideoClip = (
+  args: Pick<VideoRecognitionParams, 'startOffset' | 'endOffset' | 'fps'>
+): VideoClip | undefined => {
+  if (args.startOffset === undefined && args.endOffset === undefined && args.fps === undefined) {
+    return undefined;
+  }
+  if (args.startOffset !== undefined && args.endOffset !== undefined && args.endOffset <= args.startOffset) {
+    throw new Error('endOffset must be greater than startOffset');
+  }
+  return {
+    startOffset: args.startOffset,
+    endOffset: args.endOffset,
+    fps: args.fps
+  };
+};
+
+/**
+ * Collect the HLS/DASH variant and duration limits
+ */
+export const getStreamOptions = (
+  args: Pick<VideoRecognitionParams, 'streamMaxHeight' | 'streamMaxBandwidth' | 'streamMaxDuration'>
+): StreamOptions => {
+  return {
+    ...(args.streamMaxHeight !== undefined && { maxHeight: args.streamMaxHeight }),
+    ...(args.streamMaxBandwidth !== undefined && { maxBandwidth: args.streamMaxBandwidth }),
+    ...(args.streamMaxDuration !== undefined && { maxDuration: args.streamMaxDuration })
+  };
+};
+
+/**
+ * Return a dry run cost estimate as the tool result
+ */
+const toEstimateResult = (estimate: CostEstimate): CallToolResult => {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(estimate, null, 2)
+      }
+    ],
+    structuredContent: estimate
+  };
+};
+
 export const createVideoRecognitionTool = (
-  geminiService: GeminiService,
+  recognitionProvider: RecognitionProvider,
   mongodbService: MongoDBService,
-  mediaDownloaderService: MediaDownloaderService
+  mediaDownloaderService: MediaDownloaderService,
+  costEstimator: CostEstimator,
+  videoSegmenter: VideoSegmenter,
+  frameSampler: FrameSampler
 ) => {
   return {
     name: 'video_recognition',
@@ -31,8 +102,30 @@ export const createVideoRecognitionTool = (
         log.info(`Processing video recognition request: ${args.filepath || args.url}`);
         log.verbose('Video recognition request', JSON.stringify(args));
         
+        const responseSchema = resolveResponseSchema(args.responseSchema, args.schemaPreset);
+        const generationConfig = getGenerationOptions(args);
+        const videoClip = getVideoClip(args);
+        const processOptions: ProcessFileOptions = { responseSchema, videoClip, generation: generationConfig };
+        const frameSampling: FrameSampling | undefined = args.mode === 'frames'
+          ? { selection: args.frameSelection, frameCount: args.frameCount }
+          : undefined;
+        const streamOptions = getStreamOptions(args);
+        const prompt = args.prompt || 'Describe this video';
+        const modelName = args.modelname || 'gemini-2.5-flash';
+        const cacheKey = getCacheKey({
+          prompt,
+          model: modelName,
+          responseSchema,
+          generationConfig,
+          videoClip,
+          frameSampling,
+          stream: streamOptions
+        });
+        
         let filepath: string;
-        let fileData: Buffer;
+        let checksum: string | undefined;
+        let resolvedUrl: string | undefined;
+        let stream: StreamIngest | undefined;
         let mimeType: string;
         let filename: string;
         let sourceUrl: string | undefined;
@@ -41,24 +134,26 @@ export const createVideoRecognitionTool = (
         if (args.url) {
           log.info(`Downloading video from URL: ${args.url}`);
           
-          // Check if we already have this media in the database
-          const existingMedia = await mongodbService.findByUrl(args.url);
-          if (existingMedia && existingMedia.analysis) {
+          // Reuse an analysis of this URL made with the same prompt and options
+          const existingAnalysis = args.dryRun ? null : await mongodbService.findAnalysis(args.url, cacheKey);
+          if (existingAnalysis) {
             log.info('Found existing analysis in database, returning cached result');
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: existingMedia.analysis.result
-                }
-              ]
-            };
+            return toRecognitionToolResult({
+              text: existingAnalysis.result,
+              data: existingAnalysis.structured,
+              metadata: existingAnalysis.responseMetadata
+            });
           }
           
           // Download the media
-          const downloadResult = await mediaDownloaderService.downloadMedia(args.url);
+          const downloadResult = await mediaDownloaderService.downloadMedia(args.url, {
+            mediaTypes: ['video'],
+            stream: streamOptions
+          });
           filepath = downloadResult.filepath;
-          fileData = downloadResult.fileData;
+          checksum = downloadResult.checksum;
+          resolvedUrl = downloadResult.resolvedUrl;
+          stream = downloadResult.stream;
           mimeType = downloadResult.mimeType;
           filename = downloadResult.filename;
           sourceUrl = args.url;
@@ -78,45 +173,85 @@ export const createVideoRecognitionTool = (
             throw new Error(`Video file not found: ${filepath}`);
           }
           
-          // Verify file is a video
-          const ext = path.extname(filepath).toLowerCase();
-          if (ext !== '.mp4' && ext !== '.mpeg' && ext !== '.mov' && ext !== '.avi' && ext !== '.webm') {
-            throw new Error(`Unsupported video format: ${ext}. Supported formats are: .mp4, .mpeg, .mov, .avi, .webm`);
+          // Verify file is a video; frames mode accepts anything ffmpeg can decode
+          const format = detectFileFormat(filepath);
+          if (format?.category !== 'video' && !frameSampling) {
+            throw new Error(`Unsupported video format: ${path.extname(filepath).toLowerCase()}. Supported formats are: ${getSupportedExtensions('video').join(', ')}`);
           }
           
-          // Read file data if we need to save to DB
+          // Name and type if we need to save to DB
           if (args.saveToDb) {
-            fileData = fs.readFileSync(filepath);
             filename = path.basename(filepath);
-            mimeType = `video/${ext.substring(1)}`; // Simple MIME type inference
+            mimeType = format?.mimeType ?? 'application/octet-stream';
           }
         } else {
           throw new Error('Either filepath or url must be provided');
         }
         
-        // Default prompt if not provided
-        const prompt = args.prompt || 'Describe this video';
-        const modelName = args.modelname || 'gemini-2.5-flash';
-        
-        // Upload the file - this will handle waiting for video processing
-        log.info('Uploading and processing video file...');
-        const file = await geminiService.uploadFile(filepath);
+        let result: GeminiResponse;
+        let segments: SegmentAnalysis[] | undefined;
         
-        // Process with Gemini
-        log.info('Video processing complete, generating content...');
-        const result = await geminiService.processFile(file, prompt, modelName);
+        if (frameSampling) {
+          // Send still frames instead of the video, skipping video processing entirely
+          log.info(`Extracting ${frameSampling.frameCount} ${frameSampling.selection} frames...`);
+          const frames = await frameSampler.extractFrames(filepath, frameSampling.frameCount, frameSampling.selection, videoClip);
+          const framePrompt = `${prompt}\n\n${FRAMES_NOTE}`;
+          
+          // Only estimate the cost for dry runs
+          if (args.dryRun) {
+            const inputTokens = await recognitionProvider.countImageTokens(frames, framePrompt, modelName);
+            const estimate = costEstimator.priceTokens(modelName, 'image/jpeg', inputTokens);
+            log.info(`Dry run: estimated ${estimate.inputTokens} input tokens for ${frames.length} frames`);
+            return toEstimateResult(estimate);
+          }
+          
+          result = await recognitionProvider.processImages(frames, framePrompt, modelName, {
+            responseSchema,
+            generation: generationConfig
+          });
+          frameSampling.timestamps = frames.map(frame => frame.timestamp);
+        } else {
+          // Videos over the duration or size limit are analyzed in overlapping segments
+          const probe = await videoSegmenter.probe(filepath);
+          
+          if (probe && videoSegmenter.needsSegmentation(probe, videoClip)) {
+            log.info(`Video is ${Math.round(probe.durationSeconds)}s long, analyzing in segments...`);
+            
+            // Only estimate the cost for dry runs
+            if (args.dryRun) {
+              const estimate = await videoSegmenter.estimate(
+                recognitionProvider, costEstimator, filepath, probe, prompt, modelName, processOptions
+              );
+              log.info(`Dry run: estimated ${estimate.inputTokens} input tokens over ${estimate.segmentCount} segments`);
+              return toEstimateResult(estimate);
+            }
+            
+            const segmentedResult = await videoSegmenter.analyze(
+              recognitionProvider, filepath, probe, prompt, modelName, processOptions
+            );
+            result = segmentedResult.response;
+            segments = segmentedResult.segments;
+          } else {
+            // Upload the file - this will handle waiting for video processing
+            log.info('Uploading and processing video file...');
+            const file = await recognitionProvider.uploadFile(filepath, checksum);
+            
+            // Only estimate the cost for dry runs
+            if (args.dryRun) {
+              const estimate = await costEstimator.estimate(recognitionProvider, file, prompt, modelName, processOptions);
+              log.info(`Dry run: estimated ${estimate.inputTokens} input tokens`);
+              return toEstimateResult(estimate);
+            }
+            
+            // Process with Gemini
+            log.info('Video processing complete, generating content...');
+            result = await recognitionProvider.processFile(file, prompt, modelName, processOptions);
+          }
+        }
         
         if (result.isError) {
           log.error(`Error in video recognition: ${result.text}`);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: result.text
-              }
-            ],
-            isError: true
-          };
+          return toRecognitionToolResult(result);
         }
         
         // Save to MongoDB if requested
@@ -130,12 +265,22 @@ export const createVideoRecognitionTool = (
                 sourceUrl,
                 filename!,
                 mimeType!,
-                fileData!,
+                filepath,
                 {
+                  cacheKey,
                   prompt,
                   result: result.text,
-                  model: modelName
-                }
+                  model: modelName,
+                  responseSchema,
+                  structured: result.data,
+                  videoClip,
+                  generationConfig,
+                  responseMetadata: result.metadata,
+                  segments,
+                  frameSampling,
+                  ...(stream && { stream: { ...stream, ...streamOptions } })
+                },
+                resolvedUrl
               );
             } else {
               // For file sources, also save with analysis
@@ -143,11 +288,19 @@ export const createVideoRecognitionTool = (
                 filepath,
                 filename!,
                 mimeType!,
-                fileData!,
+                filepath,
                 {
+                  cacheKey,
                   prompt,
                   result: result.text,
-                  model: modelName
+                  model: modelName,
+                  responseSchema,
+                  structured: result.data,
+                  videoClip,
+                  generationConfig,
+                  responseMetadata: result.metadata,
+                  segments,
+                  frameSampling
                 }
               );
             }
@@ -162,14 +315,7 @@ export const createVideoRecognitionTool = (
         log.info('Video recognition completed successfully');
         log.verbose('Video recognition result', JSON.stringify(result));
         
-        return {
-          content: [
-            {
-              type: 'text',
-              text: result.text
-            }
-          ]
-        };
+        return toRecognitionToolResult(result);
       } catch (error) {
         log.error('Error in video recognition tool', error);
         const errorMessage = error instanceof Error ? error.message : String(error);
@@ -5,6 +5,49 @@
 import { z } from 'zod';
 import type { Tool, CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 
+/**
+ * JSON Schema object supplied by callers for structured output
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Named structured output schemas
+ */
+export const SchemaPresetSchema = z.enum(['summary', 'objects', 'transcript', 'scenes']);
+export type SchemaPreset = z.infer<typeof SchemaPresetSchema>;
+
+/**
+ * Safety filter categories and block thresholds
+ */
+export const SafetyCategorySchema = z.enum([
+  'harassment',
+  'hate_speech',
+  'sexually_explicit',
+  'dangerous_content',
+  'civic_integrity'
+]);
+export type SafetyCategory = z.infer<typeof SafetyCategorySchema>;
+
+export const SafetyThresholdSchema = z.enum([
+  'BLOCK_NONE',
+  'BLOCK_ONLY_HIGH',
+  'BLOCK_MEDIUM_AND_ABOVE',
+  'BLOCK_LOW_AND_ABOVE',
+  'OFF'
+]);
+export type SafetyThreshold = z.infer<typeof SafetyThresholdSchema>;
+
+/**
+ * How video_recognition sends a video to the model and how frames are picked in frames mode
+ */
+export const VideoModeSchema = z.enum(['video', 'frames']);
+export type VideoMode = z.infer<typeof VideoModeSchema>;
+
+export const FrameSelectionSchema = z.enum(['uniform', 'scene']);
+export type FrameSelection = z.infer<typeof FrameSelectionSchema>;
+
+export const MAX_FRAME_COUNT = 32;
+
 /**
  * Base schema for recognition parameters (without validation)
  */
@@ -13,7 +56,16 @@ export const BaseRecognitionParamsSchema = z.object({
   url: z.string().url().optional().describe('URL of the media file to analyze'),
   prompt: z.string().default('Describe this content').describe('Custom prompt for the recognition'),
   modelname: z.string().default('gemini-2.5-flash').describe('Gemini model to use for recognition'),
-  saveToDb: z.boolean().default(true).describe('Whether to save the media and analysis to MongoDB')
+  saveToDb: z.boolean().default(true).describe('Whether to save the media and analysis to MongoDB'),
+  responseSchema: z.record(z.any()).optional().describe('JSON Schema the response must conform to; the result is returned as validated JSON'),
+  schemaPreset: SchemaPresetSchema.optional().describe('Named response schema to use when responseSchema is not given'),
+  dryRun: z.boolean().default(false).describe('Only count input tokens and estimate the cost, without running the analysis'),
+  systemInstruction: z.string().optional().describe('System instruction that steers the model for this request'),
+  temperature: z.number().min(0).max(2).optional().describe('Sampling temperature; use 0 for reproducible output'),
+  topP: z.number().min(0).max(1).optional().describe('Nucleus sampling probability mass'),
+  maxOutputTokens: z.number().int().positive().optional().describe('Maximum number of tokens in the answer'),
+  thinkingBudget: z.number().int().min(-1).optional().describe('Thinking token budget (0 disables thinking, -1 lets the model decide)'),
+  safetySettings: z.record(SafetyCategorySchema, SafetyThresholdSchema).optional().describe('Block threshold per safety category, e.g. {"harassment": "BLOCK_ONLY_HIGH"}')
 });
 
 /**
@@ -31,11 +83,28 @@ export type RecognitionParams = z.infer<typeof RecognitionParamsSchema>;
 /**
  * Video recognition specific types
  */
-export const VideoRecognitionParamsSchema = BaseRecognitionParamsSchema.extend({}).refine(
+export const BaseVideoRecognitionParamsSchema = BaseRecognitionParamsSchema.extend({
+  startOffset: z.number().min(0).optional().describe('Start of the clip to analyze, in seconds from the beginning of the video'),
+  endOffset: z.number().positive().optional().describe('End of the clip to analyze, in seconds from the beginning of the video'),
+  fps: z.number().positive().max(24).optional().describe('Frames per second sampled by the model (default 1)'),
+  mode: VideoModeSchema.default('video').describe('"frames" sends extracted still frames with their timestamps instead of uploading the video (requires ffmpeg)'),
+  frameCount: z.number().int().min(1).max(MAX_FRAME_COUNT).default(8).describe('Number of frames to extract in frames mode'),
+  frameSelection: FrameSelectionSchema.default('uniform').describe('Evenly spaced frames, or frames at scene changes, in frames mode'),
+  streamMaxHeight: z.number().int().positive().optional().describe('For HLS/DASH URLs: pick the best variant at most this many pixels tall (default 720)'),
+  streamMaxBandwidth: z.number().int().positive().optional().describe('For HLS/DASH URLs: pick the best variant at most this many bits per second'),
+  streamMaxDuration: z.number().positive().optional().describe('For HLS/DASH URLs: ingest only the first this many seconds')
+});
+
+export const VideoRecognitionParamsSchema = BaseVideoRecognitionParamsSchema.refine(
   (data) => data.filepath || data.url,
   {
     message: 'Either filepath or url must be provided'
   }
+).refine(
+  (data) => data.startOffset === undefined || data.endOffset === undefined || data.endOffset > data.startOffset,
+  {
+    message: 'endOffset must be greater than startOffset'
+  }
 );
 export type VideoRecognitionParams = z.infer<typeof VideoRecognitionParamsSchema>;
 
@@ -61,6 +130,269 @@ export const AudioRecognitionParamsSchema = BaseRecognitionParamsSchema.extend({
 );
 export type AudioRecognitionParams = z.infer<typeof AudioRecognitionParamsSchema>;
 
+/**
+ * Cost estimation specific types
+ */
+export const BaseEstimateCostParamsSchema = BaseVideoRecognitionParamsSchema.pick({
+  filepath: true,
+  url: true,
+  prompt: true,
+  modelname: true,
+  startOffset: true,
+  endOffset: true,
+  fps: true,
+  mode: true,
+  frameCount: true,
+  frameSelection: true,
+  streamMaxHeight: true,
+  streamMaxBandwidth: true,
+  streamMaxDuration: true
+});
+
+export const EstimateCostParamsSchema = BaseEstimateCostParamsSchema.refine(
+  (data) => data.filepath || data.url,
+  {
+    message: 'Either filepath or url must be provided'
+  }
+);
+export type EstimateCostParams = z.infer<typeof EstimateCostParamsSchema>;
+
+/**
+ * Follow-up question specific types
+ */
+export const BaseAskFollowupParamsSchema = z.object({
+  mediaId: z.string().regex(/^[a-f\d]{24}$/i, 'mediaId must be a MongoDB ObjectId').optional().describe('MongoDB id of previously analyzed media'),
+  url: z.string().url().optional().describe('URL of previously analyzed media'),
+  question: z.string().min(1).describe('Follow-up question about the media'),
+  modelname: z.string().default('gemini-2.5-flash').describe('Gemini model to use for the answer')
+});
+
+export const AskFollowupParamsSchema = BaseAskFollowupParamsSchema.refine(
+  (data) => data.mediaId || data.url,
+  {
+    message: 'Either mediaId or url must be provided'
+  }
+);
+export type AskFollowupParams = z.infer<typeof AskFollowupParamsSchema>;
+
+/**
+ * Transcription specific types
+ */
+export const SubtitleFormatSchema = z.enum(['srt', 'vtt', 'json']);
+export type SubtitleFormat = z.infer<typeof SubtitleFormatSchema>;
+
+export const BaseTranscribeParamsSchema = BaseRecognitionParamsSchema.pick({
+  filepath: true,
+  url: true,
+  modelname: true,
+  saveToDb: true
+}).extend({
+  format: SubtitleFormatSchema.default('srt').describe('Output format: SRT, WebVTT or a JSON segment list'),
+  language: z.string().optional().describe('Spoken language hint, e.g. "en"; detected automatically when omitted'),
+  speakerLabels: z.boolean().default(true).describe('Label each segment with its speaker')
+});
+
+export const TranscribeParamsSchema = BaseTranscribeParamsSchema.refine(
+  (data) => data.filepath || data.url,
+  {
+    message: 'Either filepath or url must be provided'
+  }
+);
+export type TranscribeParams = z.infer<typeof TranscribeParamsSchema>;
+
+export const BaseGetTranscriptParamsSchema = BaseAskFollowupParamsSchema.pick({
+  mediaId: true,
+  url: true
+}).extend({
+  format: SubtitleFormatSchema.optional().describe('Output format; defaults to the format it was stored in')
+});
+
+export const GetTranscriptParamsSchema = BaseGetTranscriptParamsSchema.refine(
+  (data) => data.mediaId || data.url,
+  {
+    message: 'Either mediaId or url must be provided'
+  }
+);
+export type GetTranscriptParams = z.infer<typeof GetTranscriptParamsSchema>;
+
+/**
+ * Chapter detection specific types
+ */
+export const BaseDetectChaptersParamsSchema = BaseRecognitionParamsSchema.pick({
+  filepath: true,
+  url: true,
+  modelname: true,
+  saveToDb: true
+}).extend({
+  maxChapters: z.number().int().min(1).max(100).optional().describe('Upper limit on the number of chapters'),
+  focus: z.string().optional().describe('What the chapters should follow, e.g. "topics" or "product demos"')
+});
+
+export const DetectChaptersParamsSchema = BaseDetectChaptersParamsSchema.refine(
+  (data) => data.filepath || data.url,
+  {
+    message: 'Either filepath or url must be provided'
+  }
+);
+export type DetectChaptersParams = z.infer<typeof DetectChaptersParamsSchema>;
+
+/**
+ * Moment search specific types
+ */
+export const BaseFindMomentsParamsSchema = BaseRecognitionParamsSchema.pick({
+  filepath: true,
+  url: true,
+  modelname: true
+}).extend({
+  mediaId: BaseAskFollowupParamsSchema.shape.mediaId,
+  query: z.string().min(1).describe('What to look for, e.g. "when does the presenter show the chart"'),
+  maxResults: z.number().int().min(1).max(50).default(10).describe('Maximum number of moments to return'),
+  thumbnails: z.boolean().default(false).describe('Also return a frame from each moment as an image (requires ffmpeg)')
+});
+
+export const FindMomentsParamsSchema = BaseFindMomentsParamsSchema.refine(
+  (data) => data.filepath || data.url || data.mediaId,
+  {
+    message: 'Either filepath, url or mediaId must be provided'
+  }
+);
+export type FindMomentsParams = z.infer<typeof FindMomentsParamsSchema>;
+
+/**
+ * Object detection specific types
+ */
+export const BaseDetectObjectsParamsSchema = BaseRecognitionParamsSchema.pick({
+  filepath: true,
+  url: true,
+  modelname: true
+}).extend({
+  objects: z.string().optional().describe('What to detect, e.g. "cars and pedestrians"; all prominent objects when omitted'),
+  maxObjects: z.number().int().min(1).max(100).default(25).describe('Maximum number of objects to return'),
+  minScore: z.number().min(0).max(1).default(0).describe('Drop detections with a lower confidence score'),
+  annotate: z.boolean().default(false).describe('Also return the image with the boxes drawn on it (requires ffmpeg)')
+});
+
+export const DetectObjectsParamsSchema = BaseDetectObjectsParamsSchema.refine(
+  (data) => data.filepath || data.url,
+  {
+    message: 'Either filepath or url must be provided'
+  }
+);
+export type DetectObjectsParams = z.infer<typeof DetectObjectsParamsSchema>;
+
+/**
+ * Document recognition specific types
+ */
+export const DocumentTextFormatSchema = z.enum(['text', 'markdown']);
+export type DocumentTextFormat = z.infer<typeof DocumentTextFormatSchema>;
+
+export const BaseDocumentRecognitionParamsSchema = BaseRecognitionParamsSchema.pick({
+  filepath: true,
+  url: true,
+  modelname: true,
+  saveToDb: true
+}).extend({
+  format: DocumentTextFormatSchema.default('text').describe('Plain text, or Markdown that keeps headings, lists and layout'),
+  extractTables: z.boolean().default(false).describe('Also return tables as header and row arrays')
+});
+
+export const DocumentRecognitionParamsSchema = BaseDocumentRecognitionParamsSchema.refine(
+  (data) => data.filepath || data.url,
+  {
+    message: 'Either filepath or url must be provided'
+  }
+);
+export type DocumentRecognitionParams = z.infer<typeof DocumentRecognitionParamsSchema>;
+
+/**
+ * Content moderation specific types
+ */
+export const ModerationCategorySchema = z.enum(['violence', 'nudity', 'hate_symbols', 'self_harm']);
+export type ModerationCategory = z.infer<typeof ModerationCategorySchema>;
+
+export const ModerationSeveritySchema = z.enum(['none', 'low', 'medium', 'high']);
+export type ModerationSeverity = z.infer<typeof ModerationSeveritySchema>;
+
+export const ModerationPolicyCategorySchema = z.object({
+  name: z.string().regex(/^[a-z][a-z0-9_]*$/, 'name must be lowercase letters, digits and underscores').describe('Category name used in the verdicts'),
+  description: z.string().min(1).describe('What counts as a violation of this category')
+});
+export type ModerationPolicyCategory = z.infer<typeof ModerationPolicyCategorySchema>;
+
+export const BaseModerateMediaParamsSchema = BaseRecognitionParamsSchema.pick({
+  filepath: true,
+  url: true,
+  modelname: true,
+  saveToDb: true
+}).extend({
+  categories: z.array(ModerationCategorySchema).default(ModerationCategorySchema.options).describe('Built-in categories to check'),
+  customCategories: z.array(ModerationPolicyCategorySchema).default([]).describe('Additional policy categories, each with a description of what violates it'),
+  flagSeverity: ModerationSeveritySchema.exclude(['none']).default('medium').describe('Lowest severity that marks a category as flagged')
+});
+
+export const ModerateMediaParamsSchema = BaseModerateMediaParamsSchema.refine(
+  (data) => data.filepath || data.url,
+  {
+    message: 'Either filepath or url must be provided'
+  }
+).refine(
+  (data) => data.categories.length + data.customCategories.length > 0,
+  {
+    message: 'At least one category must be given'
+  }
+);
+export type ModerateMediaParams = z.infer<typeof ModerateMediaParamsSchema>;
+
+/**
+ * Multi-media comparison specific types
+ */
+export const MAX_COMPARE_INPUTS = 10;
+
+export const CompareMediaInputSchema = z.object({
+  filepath: BaseRecognitionParamsSchema.shape.filepath,
+  url: BaseRecognitionParamsSchema.shape.url,
+  mediaId: BaseAskFollowupParamsSchema.shape.mediaId,
+  startOffset: BaseVideoRecognitionParamsSchema.shape.startOffset,
+  endOffset: BaseVideoRecognitionParamsSchema.shape.endOffset
+});
+export type CompareMediaInput = z.infer<typeof CompareMediaInputSchema>;
+
+export const BaseCompareMediaParamsSchema = BaseRecognitionParamsSchema.pick({
+  modelname: true,
+  responseSchema: true,
+  schemaPreset: true,
+  systemInstruction: true,
+  temperature: true,
+  topP: true,
+  maxOutputTokens: true,
+  thinkingBudget: true,
+  safetySettings: true
+}).extend({
+  inputs: z.array(CompareMediaInputSchema).min(2).max(MAX_COMPARE_INPUTS).describe('Media to compare, each given by one of filepath, url or mediaId; the prompt refers to them as Media 1, Media 2 and so on'),
+  prompt: z.string().min(1).describe('Question about the media, e.g. "What changed between Media 1 and Media 2?"')
+});
+
+export const CompareMediaParamsSchema = BaseCompareMediaParamsSchema.refine(
+  (data) => data.inputs.every(input => [input.filepath, input.url, input.mediaId].filter(Boolean).length === 1),
+  {
+    message: 'Each input needs exactly one of filepath, url or mediaId'
+  }
+).refine(
+  (data) => data.inputs.every(input => input.startOffset === undefined || input.endOffset === undefined || input.endOffset > input.startOffset),
+  {
+    message: 'endOffset must be greater than startOffset'
+  }
+);
+export type CompareMediaParams = z.infer<typeof CompareMediaParamsSchema>;
+
+/**
+ * Remote file management specific types
+ */
+export const FileNameParamsSchema = z.object({
+  name: z.string().min(1).describe('Remote file name, e.g. "files/abc123"')
+});
+export type FileNameParams = z.infer<typeof FileNameParamsSchema>;
+
 /**
  * Tool definitions
  */
@@ -76,6 +408,75 @@ export interface ToolDefinition {
  */
 export interface GeminiConfig {
   apiKey: string;
+  maxConcurrency?: number;  // Concurrent requests per model
+  maxRetries?: number;      // Retries for rate limited or unavailable responses
+}
+
+export interface FakeProviderConfig {
+  scriptPath?: string;
+}
+
+export interface FfmpegConfig {
+  ffmpegPath?: string;
+  ffprobePath?: string;
+}
+
+/**
+ * Limits above which videos are split into overlapping segments
+ */
+export interface VideoSegmentationConfig {
+  maxDurationSeconds?: number;
+  maxSizeBytes?: number;
+  segmentSeconds?: number;
+  overlapSeconds?: number;
+}
+
+/**
+ * Restrictions on the URLs media may be downloaded from
+ */
+export interface UrlPolicyConfig {
+  allowedSchemes?: string[];      // Defaults to http and https
+  allowedDomains?: string[];      // When set, only these domains and their subdomains
+  blockedDomains?: string[];      // Never these domains or their subdomains
+  allowPrivateNetworks?: boolean; // Allow loopback, private and link-local addresses
+}
+
+/**
+ * How to request URLs on matching domains; string values may reference environment variables as ${NAME}
+ */
+export interface RequestProfileConfig {
+  name: string;
+  domains: string[];                            // Domains, matching their subdomains too; * is a wildcard
+  strategies?: Array<Record<string, string>>;   // Header sets tried in turn on 401, 403 or 429; browser-like sets by default
+  headers?: Record<string, string>;             // Added to every header set
+  referer?: string;
+  cookies?: Record<string, string>;
+  bearerToken?: string;
+  timeoutMs?: number;
+  proxy?: string | false;                       // Proxy URL; false or unset connects directly
+}
+
+export type StreamProtocol = 'hls' | 'dash';
+
+/**
+ * Variant limits and duration cap for HLS and DASH URLs
+ */
+export interface StreamOptions {
+  maxHeight?: number;     // Tallest variant to pick, in pixels
+  maxBandwidth?: number;  // Highest variant bitrate to pick, in bits per second
+  maxDuration?: number;   // Seconds from the start of the stream to ingest
+}
+
+/**
+ * The variant and length ingested from an HLS or DASH URL
+ */
+export interface StreamIngest {
+  protocol: StreamProtocol;
+  bandwidth?: number;
+  width?: number;
+  height?: number;
+  durationSeconds: number;
+  segmentCount: number;
 }
 
 export interface GeminiFile {
@@ -83,6 +484,7 @@ export interface GeminiFile {
   mimeType: string;
   name?: string;
   state?: string;
+  expirationTime?: string;
 }
 
 export interface ProcessedGeminiFile {
@@ -100,6 +502,32 @@ export interface CachedFile {
   name: string;
   state: string;
   timestamp: number;
+  expiresAt?: number;
+}
+
+/**
+ * Persistent storage for the checksum to uploaded file mapping
+ */
+export interface FileCacheStore {
+  getCachedFile(checksum: string): Promise<CachedFile | null>;
+  listCachedFiles(): Promise<CachedFile[]>;
+  saveCachedFile(file: CachedFile): Promise<void>;
+  deleteCachedFile(checksum: string): Promise<void>;
+}
+
+/**
+ * Details of a file stored with the provider
+ */
+export interface RemoteFileInfo {
+  name: string;
+  displayName?: string;
+  uri?: string;
+  mimeType?: string;
+  sizeBytes?: number;
+  state?: string;
+  createTime?: string;
+  expirationTime?: string;
+  cachedChecksum?: string;  // Local upload cache entry pointing at this file
 }
 
 // File states from Gemini API
@@ -110,7 +538,228 @@ export enum FileState {
   FAILED = 'FAILED'
 }
 
+/**
+ * Portion of a video sent to the model; offsets are in seconds
+ */
+export interface VideoClip {
+  startOffset?: number;
+  endOffset?: number;
+  fps?: number;
+}
+
+/**
+ * Media details read with ffprobe
+ */
+export interface MediaProbe {
+  durationSeconds: number;
+  sizeBytes: number;
+  hasVideo: boolean;
+  hasAudio: boolean;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Frames sent in place of a video in frames mode
+ */
+export interface FrameSampling {
+  selection: FrameSelection;
+  frameCount: number;
+  timestamps?: number[];  // Seconds into the video of the frames that were sent
+}
+
+/**
+ * Text read from one page of a document or scanned image; pages are numbered from 1
+ */
+export interface DocumentPage {
+  page: number;
+  text: string;
+  tables?: DocumentTable[];
+}
+
+export interface DocumentTable {
+  title?: string;
+  headers: string[];
+  rows: string[][];
+}
+
+/**
+ * Moderation result for one policy category; timestamps are only given for audio and video
+ */
+export interface ModerationVerdict {
+  category: string;
+  severity: ModerationSeverity;
+  flagged: boolean;
+  confidence: number;  // 0-1
+  rationale: string;
+  timestamps?: Array<{ start: number; end: number }>;
+  safetyRating?: string;  // Gemini safety probability that raised the severity
+}
+
+/**
+ * Image size in pixels
+ */
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+/**
+ * Rectangle in pixel coordinates of the image, from the top-left corner
+ */
+export interface BoundingBox {
+  xmin: number;
+  ymin: number;
+  xmax: number;
+  ymax: number;
+}
+
+export interface DetectedObject {
+  label: string;
+  score: number;  // Model confidence, 0-1
+  box: BoundingBox;
+}
+
+/**
+ * Image sent inline with a request, introduced by a text label
+ */
+export interface LabeledImage {
+  label: string;
+  mimeType: string;
+  data: Buffer;
+}
+
+/**
+ * Uploaded file sent alongside others in one request, introduced by a text label
+ */
+export interface LabeledFile {
+  label: string;
+  file: GeminiFile;
+  videoClip?: VideoClip;
+}
+
+/**
+ * Timed transcript; times are in seconds from the start of the media
+ */
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  speaker?: string;
+  text: string;
+}
+
+export interface Transcript {
+  language?: string;
+  segments: TranscriptSegment[];
+}
+
+/**
+ * Chapter of a video; times are in seconds from the start
+ */
+export interface Chapter {
+  start: number;
+  end: number;
+  title: string;
+  summary: string;
+}
+
+/**
+ * A stretch of video matching a search query; times are in seconds and confidence is 0-1
+ */
+export interface VideoMoment {
+  start: number;
+  end: number;
+  confidence: number;
+  justification: string;
+}
+
+/**
+ * Answer for one segment of a long video; offsets are in seconds of the full video
+ */
+export interface SegmentAnalysis {
+  index: number;
+  startOffset: number;
+  endOffset: number;
+  result: string;
+}
+
+/**
+ * One turn of a conversation about a media file
+ */
+export interface ConversationTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+/**
+ * Model generation settings forwarded to generateContent
+ */
+export interface GenerationOptions {
+  systemInstruction?: string;
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+  thinkingBudget?: number;
+  safetySettings?: Partial<Record<SafetyCategory, SafetyThreshold>>;
+}
+
+export interface ProcessFileOptions {
+  responseSchema?: JsonSchema;
+  generation?: GenerationOptions;
+  videoClip?: VideoClip;
+  history?: ConversationTurn[];  // Earlier turns; the file is attached to the first user turn
+}
+
+export interface TokenUsage {
+  promptTokens?: number;
+  outputTokens?: number;
+  thoughtsTokens?: number;
+  cachedTokens?: number;
+  totalTokens?: number;
+}
+
+export interface SafetyRatingInfo {
+  category: string;
+  probability?: string;
+  severity?: string;
+  blocked?: boolean;
+}
+
+/**
+ * Response details beyond the answer text
+ */
+export interface ResponseMetadata {
+  usage?: TokenUsage;
+  finishReason?: string;
+  finishMessage?: string;
+  blockReason?: string;
+  blockReasonMessage?: string;
+  safetyRatings?: SafetyRatingInfo[];
+}
+
 export interface GeminiResponse {
   text: string;
+  data?: unknown;
+  metadata?: ResponseMetadata;
   isError?: boolean;
+  errorType?: 'quota_exhausted' | 'blocked';
+}
+
+/**
+ * Backend that uploads media and generates answers about it
+ */
+export interface RecognitionProvider {
+  uploadFile(filePath: string, checksum?: string): Promise<GeminiFile>;
+  getValidCachedFile(checksum: string): Promise<GeminiFile | null>;
+  waitForVideoProcessing(file: GeminiFile, maxWaitTimeMs?: number): Promise<ProcessedGeminiFile>;
+  processFile(file: GeminiFile, prompt: string, modelName: string, options?: ProcessFileOptions): Promise<GeminiResponse>;
+  processText(prompt: string, modelName: string, options?: ProcessFileOptions): Promise<GeminiResponse>;
+  processImages(images: LabeledImage[], prompt: string, modelName: string, options?: ProcessFileOptions): Promise<GeminiResponse>;
+  processFiles(files: LabeledFile[], prompt: string, modelName: string, options?: ProcessFileOptions): Promise<GeminiResponse>;
+  countImageTokens(images: LabeledImage[], prompt: string, modelName: string): Promise<number>;
+  countTokens(file: GeminiFile, prompt: string, modelName: string, options?: ProcessFileOptions): Promise<number>;
+  listFiles(): Promise<RemoteFileInfo[]>;
+  describeFile(name: string): Promise<RemoteFileInfo>;
+  deleteFile(name: string): Promise<void>;
+  readonly storageQuotaBytes: number;
 }
@@ -0,0 +1,28 @@
+/**
+ * Keys for reusing stored analyses
+ */
+
+import * as crypto from 'node:crypto';
+
+/**
+ * Serialize a value with object keys in sorted order and undefined fields left out
+ */
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item ?? null)).join(',')}]`;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+/**
+ * Hash everything an analysis depends on besides the media itself, so a stored analysis can be found by exact match
+ */
+export function getCacheKey(criteria: Record<string, unknown>): string {
+  return crypto.createHash('sha256').update(stableStringify(criteria)).digest('hex');
+}
@@ -0,0 +1,79 @@
+/**
+ * Chapter detection prompt, schema and validation
+ */
+
+import { formatTimestamp, parseTimestamp } from './timestamps.js';
+import type { Chapter, JsonSchema } from '../types/index.js';
+
+/**
+ * Response schema for chapter detection
+ */
+export const CHAPTERS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    chapters: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          start: { type: 'string', description: 'Start time as HH:MM:SS' },
+          end: { type: 'string', description: 'End time as HH:MM:SS' },
+          title: { type: 'string', description: 'Short chapter title' },
+          summary: { type: 'string', description: 'One or two sentence summary' }
+        },
+        required: ['start', 'end', 'title', 'summary']
+      }
+    }
+  },
+  required: ['chapters']
+};
+
+interface RawChapters {
+  chapters: Array<{ start: string; end: string; title: string; summary: string }>;
+}
+
+/**
+ * Build the chapter detection prompt
+ */
+export function buildChaptersPrompt(durationSeconds?: number, maxChapters?: number, focus?: string): string {
+  return [
+    'Divide this video into chapters that follow its structure, in order and without gaps or overlaps.',
+    focus ? `Base the chapters on ${focus}.` : 'Start a new chapter where the topic or scene changes.',
+    'Give each chapter start and end times as HH:MM:SS, a short title and a one or two sentence summary.',
+    durationSeconds !== undefined ? `The video is ${formatTimestamp(durationSeconds)} long; the last chapter ends there.` : '',
+    maxChapters !== undefined ? `Return at most ${maxChapters} chapters.` : ''
+  ].filter(Boolean).join(' ');
+}
+
+/**
+ * Turn model output into ordered, non-overlapping chapters inside the video duration.
+ * Ends are cut back to the next chapter's start; chapters past the end of the video are dropped.
+ */
+export function toChapters(data: unknown, durationSeconds?: number): Chapter[] {
+  const raw = data as RawChapters;
+  const parsed = raw.chapters
+    .flatMap(chapter => {
+      const start = parseTimestamp(chapter.start);
+      const title = chapter.title.trim();
+      if (start === undefined || !title) return [];
+      if (durationSeconds !== undefined && start >= durationSeconds) return [];
+      return [{ start, end: parseTimestamp(chapter.end), title, summary: chapter.summary.trim() }];
+    })
+    .sort((a, b) => a.start - b.start)
+    .filter((chapter, index, sorted) => index === 0 || chapter.start > sorted[index - 1].start);
+
+  const chapters: Chapter[] = parsed.flatMap((chapter, index) => {
+    const limit = parsed[index + 1]?.start ?? durationSeconds;
+    let end = chapter.end !== undefined && chapter.end > chapter.start ? chapter.end : limit;
+    if (end === undefined) return [];
+    if (limit !== undefined) {
+      end = Math.min(end, limit);
+    }
+    return [{ ...chapter, end }];
+  });
+
+  if (chapters.length === 0) {
+    throw new Error('The model returned no valid chapters');
+  }
+  return chapters;
+}
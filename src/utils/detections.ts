@@ -0,0 +1,78 @@
+/**
+ * Object detection prompt, schema and coordinate conversion
+ */
+
+import type { DetectedObject, ImageDimensions, JsonSchema } from '../types/index.js';
+
+// Gemini returns box coordinates on a 0-1000 grid regardless of the image size
+const NORMALIZED_SCALE = 1000;
+
+/**
+ * Response schema for object detection
+ */
+export const DETECTION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    objects: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          label: { type: 'string', description: 'Short name of the object' },
+          box_2d: {
+            type: 'array',
+            items: { type: 'integer' },
+            description: 'Bounding box as [ymin, xmin, ymax, xmax] normalized to 0-1000'
+          },
+          score: { type: 'number', description: 'Confidence from 0 to 1' }
+        },
+        required: ['label', 'box_2d', 'score']
+      }
+    }
+  },
+  required: ['objects']
+};
+
+interface RawDetections {
+  objects: Array<{ label: string; box_2d: number[]; score: number }>;
+}
+
+/**
+ * Build the object detection prompt
+ */
+export function buildDetectionPrompt(maxObjects: number, objects?: string): string {
+  return [
+    objects ? `Detect the following in this image: ${objects}.` : 'Detect the prominent objects in this image.',
+    'Give each one a short label, a 2D bounding box as box_2d [ymin, xmin, ymax, xmax] normalized to 0-1000 and a confidence score from 0 to 1.',
+    'Label repeated objects separately, with one box each.',
+    `Return at most ${maxObjects} objects.`
+  ].join(' ');
+}
+
+/**
+ * Convert normalized boxes to pixel coordinates of the image, dropping malformed and low-scoring detections
+ */
+export function toDetectedObjects(data: unknown, dimensions: ImageDimensions, maxObjects: number, minScore: number): DetectedObject[] {
+  const raw = data as RawDetections;
+  const toPixels = (value: number, size: number) =>
+    Math.round(Math.min(Math.max(value, 0), NORMALIZED_SCALE) / NORMALIZED_SCALE * size);
+
+  return raw.objects
+    .flatMap(object => {
+      const label = object.label.trim();
+      const score = Number.isFinite(object.score) ? Math.min(Math.max(object.score, 0), 1) : 0;
+      if (!label || score < minScore) return [];
+      if (object.box_2d?.length !== 4 || !object.box_2d.every(Number.isFinite)) return [];
+
+      const [y1, x1, y2, x2] = object.box_2d;
+      const box = {
+        xmin: toPixels(Math.min(x1, x2), dimensions.width),
+        ymin: toPixels(Math.min(y1, y2), dimensions.height),
+        xmax: toPixels(Math.max(x1, x2), dimensions.width),
+        ymax: toPixels(Math.max(y1, y2), dimensions.height)
+      };
+      return box.xmax > box.xmin && box.ymax > box.ymin ? [{ label, score, box }] : [];
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, maxObjects);
+}
@@ -0,0 +1,82 @@
+/**
+ * Document text extraction prompt, schema and rendering
+ */
+
+import type { DocumentPage, DocumentTable, DocumentTextFormat, JsonSchema } from '../types/index.js';
+
+const TABLE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', description: 'Caption or heading of the table, if any' },
+    headers: { type: 'array', items: { type: 'string' } },
+    rows: { type: 'array', items: { type: 'array', items: { type: 'string' } } }
+  },
+  required: ['headers', 'rows']
+};
+
+interface RawDocument {
+  pages: Array<{ page: number; text: string; tables?: DocumentTable[] }>;
+}
+
+/**
+ * Response schema for per-page text, with tables when requested
+ */
+export function buildDocumentSchema(extractTables: boolean): JsonSchema {
+  return {
+    type: 'object',
+    properties: {
+      pages: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            page: { type: 'integer', description: 'Page number, starting at 1' },
+            text: { type: 'string', description: 'All text on the page in reading order' },
+            ...(extractTables && { tables: { type: 'array', items: TABLE_SCHEMA } })
+          },
+          required: extractTables ? ['page', 'text', 'tables'] : ['page', 'text']
+        }
+      }
+    },
+    required: ['pages']
+  };
+}
+
+/**
+ * Build the text extraction prompt
+ */
+export function buildDocumentPrompt(format: DocumentTextFormat, extractTables: boolean): string {
+  return [
+    'Extract all text from this document, page by page and in reading order, exactly as written.',
+    'A single image, such as a photo of a receipt or a scanned page, is one page.',
+    format === 'markdown'
+      ? 'Write the text of each page as Markdown that preserves its layout: headings, paragraphs, lists and tables.'
+      : 'Write the text of each page as plain text, keeping line breaks between blocks.',
+    extractTables ? 'Also list every table on each page with its header cells and rows; use an empty list for pages without tables.' : ''
+  ].filter(Boolean).join(' ');
+}
+
+/**
+ * Convert model output to pages, numbering them by position unless the model's page numbers are valid and increasing
+ */
+export function toDocumentPages(data: unknown): DocumentPage[] {
+  const raw = data as RawDocument;
+  const numbered = raw.pages.every((page, index) =>
+    Number.isInteger(page.page) && page.page > 0 && (index === 0 || page.page > raw.pages[index - 1].page)
+  );
+
+  return raw.pages.map((page, index) => ({
+    page: numbered ? page.page : index + 1,
+    text: page.text.trim(),
+    ...(page.tables && { tables: page.tables })
+  }));
+}
+
+/**
+ * Render pages as one text with a marker before each page
+ */
+export function renderDocumentPages(pages: DocumentPage[], format: DocumentTextFormat): string {
+  return pages
+    .map(page => format === 'markdown' ? `<!-- Page ${page.page} -->\n\n${page.text}` : `--- Page ${page.page} ---\n${page.text}`)
+    .join('\n\n');
+}
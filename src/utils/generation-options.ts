@@ -0,0 +1,21 @@
+/**
+ * Helpers for caller-supplied generation settings
+ */
+
+import type { GenerationOptions } from '../types/index.js';
+
+/**
+ * Collect generation settings from tool arguments; undefined when none are set
+ */
+export function getGenerationOptions(args: GenerationOptions): GenerationOptions | undefined {
+  const options: GenerationOptions = {
+    ...(args.systemInstruction !== undefined && { systemInstruction: args.systemInstruction }),
+    ...(args.temperature !== undefined && { temperature: args.temperature }),
+    ...(args.topP !== undefined && { topP: args.topP }),
+    ...(args.maxOutputTokens !== undefined && { maxOutputTokens: args.maxOutputTokens }),
+    ...(args.thinkingBudget !== undefined && { thinkingBudget: args.thinkingBudget }),
+    ...(args.safetySettings !== undefined && { safetySettings: args.safetySettings })
+  };
+
+  return Object.keys(options).length > 0 ? options : undefined;
+}
@@ -0,0 +1,258 @@
+/**
+ * Find media embedded in web pages: Open Graph and Twitter card tags, <video>/<audio> elements and JSON-LD
+ */
+
+import { getManifestProtocol } from './manifests.js';
+import { getFormatByExtension, getFormatByMimeType } from './media-formats.js';
+import type { MediaCategory } from './media-formats.js';
+
+export interface EmbeddedMedia {
+  url: string;
+  category: MediaCategory;
+  source: string;         // Where on the page the URL was found, e.g. og:video
+  mimeType?: string;
+  width?: number;
+  height?: number;
+}
+
+interface RawCandidate {
+  url: string;
+  kind: MediaCategory;
+  source: string;
+  mimeType?: string;
+  width?: number;
+  height?: number;
+}
+
+// Sources in order of preference when a page offers several candidates of the same category
+const SOURCE_PRIORITY = [
+  'og:video',
+  'twitter:player:stream',
+  'video',
+  'audio',
+  'json-ld',
+  'og:audio',
+  'og:image',
+  'twitter:image'
+];
+
+// JSON-LD types and the media category their contentUrl holds
+const JSON_LD_TYPES: Record<string, MediaCategory> = {
+  VideoObject: 'video',
+  AudioObject: 'audio',
+  ImageObject: 'image'
+};
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'"
+};
+
+/**
+ * Decode the HTML entities that appear in attribute values; numeric entities outside Unicode are left as written
+ */
+const decodeEntities = (value: string): string => {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name.startsWith('#')) {
+      const codePoint = /^#x/i.test(name) ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    }
+    return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+};
+
+/**
+ * Parse the attributes of a start tag
+ */
+const parseAttributes = (tag: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g)) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4]);
+  }
+  return attributes;
+};
+
+const toDimension = (value: string | undefined): number | undefined => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+/**
+ * Collect Open Graph and Twitter card candidates; structured properties such as og:video:type apply to the latest og:video
+ */
+const fromMetaTags = (html: string): RawCandidate[] => {
+  const candidates: RawCandidate[] = [];
+  const current: Partial<Record<string, RawCandidate>> = {};
+  const secure = new Set<RawCandidate>();
+
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const attributes = parseAttributes(tag);
+    const key = (attributes.property ?? attributes.name ?? '').toLowerCase();
+    const value = attributes.content?.trim();
+    if (!value) continue;
+
+    const og = key.match(/^og:(video|image|audio)(?::(url|secure_url|type|width|height))?$/);
+    if (og) {
+      const kind = og[1] as MediaCategory;
+      const field = og[2] ?? 'url';
+      const item = current[kind];
+      if (field === 'secure_url' && item && !secure.has(item)) {
+        // The HTTPS variant of the item just declared
+        item.url = value;
+        secure.add(item);
+      } else if (field === 'url' || field === 'secure_url') {
+        const created: RawCandidate = { url: value, kind, source: `og:${kind}` };
+        candidates.push(created);
+        current[kind] = created;
+        if (field === 'secure_url') secure.add(created);
+      } else if (item && field === 'type') {
+        item.mimeType = value;
+      } else if (item) {
+        item[field as 'width' | 'height'] = toDimension(value);
+      }
+      continue;
+    }
+
+    if (key === 'twitter:player:stream') {
+      current.twitter = { url: value, kind: 'video', source: 'twitter:player:stream' };
+      candidates.push(current.twitter);
+    } else if (key === 'twitter:player:stream:content_type' && current.twitter) {
+      current.twitter.mimeType = value;
+    } else if (key === 'twitter:image' || key === 'twitter:image:src') {
+      candidates.push({ url: value, kind: 'image', source: 'twitter:image' });
+    }
+  }
+
+  return candidates;
+};
+
+/**
+ * Collect the src of <video> and <audio> elements and their <source> children
+ */
+const fromMediaElements = (html: string): RawCandidate[] => {
+  const candidates: RawCandidate[] = [];
+
+  for (const match of html.matchAll(/<(video|audio)\b([^>]*)>([\s\S]*?)<\/\1\s*>/gi)) {
+    const kind = match[1].toLowerCase() as MediaCategory;
+    const element = parseAttributes(match[2]);
+    if (element.src) {
+      candidates.push({ url: element.src, kind, source: kind });
+    }
+    for (const [tag] of match[3].matchAll(/<source\b[^>]*>/gi)) {
+      const source = parseAttributes(tag);
+      if (source.src) {
+        candidates.push({ url: source.src, kind, source: kind, mimeType: source.type });
+      }
+    }
+  }
+
+  return candidates;
+};
+
+/**
+ * Collect contentUrl values from JSON-LD blocks, including nested objects and @graph lists
+ */
+const fromJsonLd = (html: string): RawCandidate[] => {
+  const candidates: RawCandidate[] = [];
+
+  const visit = (node: unknown): void => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (!node || typeof node !== 'object') return;
+
+    const object = node as Record<string, unknown>;
+    const types = [object['@type']].flat().filter((type): type is string => typeof type === 'string');
+    const kind = types.map(type => JSON_LD_TYPES[type]).find(Boolean);
+    if (kind) {
+      for (const url of [object.contentUrl].flat()) {
+        if (typeof url === 'string') {
+          candidates.push({
+            url,
+            kind,
+            source: 'json-ld',
+            mimeType: typeof object.encodingFormat === 'string' ? object.encodingFormat : undefined,
+            width: toDimension(String(object.width)),
+            height: toDimension(String(object.height))
+          });
+        }
+      }
+    }
+    Object.values(object).forEach(visit);
+  };
+
+  for (const match of html.matchAll(/<script\b[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script\s*>/gi)) {
+    try {
+      visit(JSON.parse(match[1]));
+    } catch {
+      // Ignore malformed blocks; other sources on the page may still work
+    }
+  }
+
+  return candidates;
+};
+
+/**
+ * Check whether a response is an HTML page rather than media
+ */
+export function isHtmlPage(contentType: string | undefined, head: Buffer): boolean {
+  if (contentType && /^(text\/html|application\/xhtml\+xml)/i.test(contentType)) return true;
+  return /^\s*(<!doctype html|<html[\s>])/i.test(head.toString('utf8').replace(/^\uFEFF/, ''));
+}
+
+/**
+ * Find the media a web page embeds, resolved against the page URL and ranked by preference for the given categories.
+ * Candidates whose declared type is neither a supported media format nor a streaming manifest, such as player pages, are left out.
+ */
+export function findEmbeddedMedia(html: string, pageUrl: string, categories?: MediaCategory[]): EmbeddedMedia[] {
+  const seen = new Set<string>();
+  const media: EmbeddedMedia[] = [];
+
+  for (const candidate of [...fromMetaTags(html), ...fromMediaElements(html), ...fromJsonLd(html)]) {
+    let url: URL;
+    try {
+      url = new URL(candidate.url, pageUrl);
+    } catch {
+      continue;
+    }
+    if (!['http:', 'https:'].includes(url.protocol) || seen.has(url.href)) continue;
+
+    // HLS and DASH manifests are ingested as video; otherwise a declared type decides the category, then the extension, then the tag
+    let category: MediaCategory = candidate.kind;
+    if (getManifestProtocol(candidate.mimeType, url.href)) {
+      category = 'video';
+    } else if (candidate.mimeType) {
+      const format = getFormatByMimeType(candidate.mimeType);
+      if (!format) continue;
+      category = format.category;
+    } else {
+      category = getFormatByExtension(url.pathname)?.category ?? candidate.kind;
+    }
+    if (categories && !categories.includes(category)) continue;
+
+    seen.add(url.href);
+    media.push({
+      url: url.href,
+      category,
+      source: candidate.source,
+      ...(candidate.mimeType && { mimeType: candidate.mimeType }),
+      ...(candidate.width && { width: candidate.width }),
+      ...(candidate.height && { height: candidate.height })
+    });
+  }
+
+  // Prefer the caller's first category, then the more specific source, then the larger media
+  const rank = (item: EmbeddedMedia) => [
+    categories ? categories.indexOf(item.category) : 0,
+    SOURCE_PRIORITY.indexOf(item.source),
+    -((item.width ?? 0) * (item.height ?? 0))
+  ];
+  return media
+    .map((item, index) => ({ item, index, key: rank(item) }))
+    .sort((a, b) => a.key[0] - b.key[0] || a.key[1] - b.key[1] || a.key[2] - b.key[2] || a.index - b.index)
+    .map(({ item }) => item);
+}
@@ -0,0 +1,71 @@
+/**
+ * Reads pixel dimensions from image file headers
+ */
+
+import { detectFormat } from './media-formats.js';
+import type { ImageDimensions } from '../types/index.js';
+
+// JPEG start-of-frame markers; C4, C8 and CC share the range but are not frames
+const JPEG_SOF_MARKERS = new Set([0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf]);
+
+const readJpegDimensions = (data: Buffer): ImageDimensions | undefined => {
+  let offset = 2;
+  while (offset + 9 <= data.length) {
+    if (data[offset] !== 0xff) return undefined;
+
+    const marker = data[offset + 1];
+    if (marker === 0xff) {
+      offset += 1;
+      continue;
+    }
+    if (JPEG_SOF_MARKERS.has(marker)) {
+      return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+    }
+    // Standalone markers have no length field
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      offset += 2;
+      continue;
+    }
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+  return undefined;
+};
+
+const readWebpDimensions = (data: Buffer): ImageDimensions | undefined => {
+  if (data.length < 30) return undefined;
+
+  const chunk = data.toString('ascii', 12, 16);
+  if (chunk === 'VP8 ') {
+    return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+  }
+  if (chunk === 'VP8L') {
+    const bits = data.readUInt32LE(21);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  if (chunk === 'VP8X') {
+    return { width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+  }
+  return undefined;
+};
+
+/**
+ * Read the width and height of a JPEG, PNG, GIF or WebP image; undefined for other or truncated files
+ */
+export const getImageDimensions = (data: Buffer): ImageDimensions | undefined => {
+  let dimensions: ImageDimensions | undefined;
+  switch (detectFormat(data)?.mimeType) {
+    case 'image/jpeg':
+      dimensions = readJpegDimensions(data);
+      break;
+    case 'image/png':
+      dimensions = data.length >= 24 ? { width: data.readUInt32BE(16), height: data.readUInt32BE(20) } : undefined;
+      break;
+    case 'image/gif':
+      dimensions = data.length >= 10 ? { width: data.readUInt16LE(6), height: data.readUInt16LE(8) } : undefined;
+      break;
+    case 'image/webp':
+      dimensions = readWebpDimensions(data);
+      break;
+  }
+  return dimensions && dimensions.width > 0 && dimensions.height > 0 ? dimensions : undefined;
+};
@@ -0,0 +1,420 @@
+/**
+ * HLS playlist and DASH manifest parsing, and variant selection for stream ingestion
+ */
+
+import type { StreamOptions, StreamProtocol } from '../types/index.js';
+
+export interface MediaSegment {
+  url: string;
+  duration: number;  // Seconds
+}
+
+export interface SegmentList {
+  initUrl?: string;  // Initialization segment for fragmented MP4
+  segments: MediaSegment[];
+}
+
+// An HLS media playlist still to be fetched, or segments already listed in the manifest
+export type TrackSource = string | SegmentList;
+
+export interface StreamVariant {
+  bandwidth?: number;
+  width?: number;
+  height?: number;
+  video: TrackSource;
+  audio?: TrackSource;  // Separate audio rendition, when the variant has no muxed audio
+}
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+// Most segments one SegmentTemplate may expand to, so a hostile manifest cannot exhaust memory
+const MAX_TEMPLATE_SEGMENTS = 20000;
+
+const HLS_MIME_TYPES = ['application/vnd.apple.mpegurl', 'application/x-mpegurl', 'audio/mpegurl', 'audio/x-mpegurl'];
+const DASH_MIME_TYPES = ['application/dash+xml'];
+
+/**
+ * Tell whether a declared MIME type or URL is an HLS playlist or DASH manifest
+ */
+export function getManifestProtocol(mimeType: string | undefined, url?: string): StreamProtocol | undefined {
+  const type = mimeType?.split(';')[0].trim().toLowerCase();
+  if (type && HLS_MIME_TYPES.includes(type)) return 'hls';
+  if (type && DASH_MIME_TYPES.includes(type)) return 'dash';
+
+  let pathname = '';
+  try {
+    pathname = url ? new URL(url).pathname.toLowerCase() : '';
+  } catch {
+    pathname = '';
+  }
+  if (pathname.endsWith('.m3u8')) return 'hls';
+  if (pathname.endsWith('.mpd')) return 'dash';
+  return undefined;
+}
+
+/**
+ * Detect a manifest from the start of a response, its content type or its URL
+ */
+export function detectManifest(contentType: string | undefined, head: Buffer, url: string): StreamProtocol | undefined {
+  const text = head.toString('utf8').replace(/^\uFEFF/, '').trimStart();
+  if (text.startsWith('#EXTM3U')) return 'hls';
+  if (/^(<\?xml[^>]*>\s*)?<([\w-]+:)?MPD[\s>]/.test(text)) return 'dash';
+
+  // The MPD element can lie beyond the sniffed bytes, after an XML declaration or comments
+  return getManifestProtocol(contentType, url) === 'dash' && text.startsWith('<') ? 'dash' : undefined;
+}
+
+/**
+ * Parse an HLS attribute list such as BANDWIDTH=1280000,RESOLUTION=1280x720,CODECS="avc1,mp4a"
+ */
+const parseAttributeList = (list: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  for (const match of list.matchAll(/([A-Z0-9-]+)=("[^"]*"|[^,]*)/g)) {
+    attributes[match[1]] = match[2].replace(/^"|"$/g, '');
+  }
+  return attributes;
+};
+
+const toNumber = (value: string | undefined): number | undefined => {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const playlistLines = (text: string): string[] => {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  if (lines[0] !== '#EXTM3U') {
+    throw new Error('Not an HLS playlist');
+  }
+  return lines;
+};
+
+/**
+ * Parse an HLS media playlist into its segments
+ */
+export function parseHlsMediaPlaylist(text: string, playlistUrl: string): SegmentList {
+  const list: SegmentList = { segments: [] };
+  let duration: number | undefined;
+
+  for (const line of playlistLines(text)) {
+    if (line.startsWith('#EXT-X-KEY:') || line.startsWith('#EXT-X-SESSION-KEY:')) {
+      const method = parseAttributeList(line.slice(line.indexOf(':') + 1)).METHOD;
+      if (method && method !== 'NONE') {
+        throw new Error(`Encrypted HLS streams are not supported (${method})`);
+      }
+    } else if (line.startsWith('#EXT-X-BYTERANGE')) {
+      throw new Error('HLS byte-range segments are not supported');
+    } else if (line.startsWith('#EXT-X-MAP:')) {
+      const map = parseAttributeList(line.slice('#EXT-X-MAP:'.length));
+      if (map.BYTERANGE) {
+        throw new Error('HLS byte-range segments are not supported');
+      }
+      list.initUrl = new URL(map.URI, playlistUrl).href;
+    } else if (line.startsWith('#EXTINF:')) {
+      duration = toNumber(line.slice('#EXTINF:'.length).split(',')[0]);
+    } else if (!line.startsWith('#')) {
+      list.segments.push({ url: new URL(line, playlistUrl).href, duration: duration ?? 0 });
+      duration = undefined;
+    }
+  }
+
+  return list;
+}
+
+/**
+ * Parse an HLS playlist into variants; a media playlist becomes a single variant
+ */
+export function parseHlsPlaylist(text: string, playlistUrl: string): StreamVariant[] {
+  const lines = playlistLines(text);
+  if (!lines.some(line => line.startsWith('#EXT-X-STREAM-INF:'))) {
+    return [{ video: parseHlsMediaPlaylist(text, playlistUrl) }];
+  }
+
+  // Audio renditions by group, preferring the default one
+  const audioGroups = new Map<string, string>();
+  for (const line of lines.filter(line => line.startsWith('#EXT-X-MEDIA:'))) {
+    const media = parseAttributeList(line.slice('#EXT-X-MEDIA:'.length));
+    if (media.TYPE !== 'AUDIO' || !media.URI || !media['GROUP-ID']) continue;
+    if (!audioGroups.has(media['GROUP-ID']) || media.DEFAULT === 'YES') {
+      audioGroups.set(media['GROUP-ID'], new URL(media.URI, playlistUrl).href);
+    }
+  }
+
+  const variants: StreamVariant[] = [];
+  lines.forEach((line, index) => {
+    if (!line.startsWith('#EXT-X-STREAM-INF:')) return;
+    const uri = lines.slice(index + 1).find(next => !next.startsWith('#'));
+    if (!uri) return;
+
+    const attributes = parseAttributeList(line.slice('#EXT-X-STREAM-INF:'.length));
+    const [width, height] = (attributes.RESOLUTION ?? '').split('x').map(Number);
+    const audio = attributes.AUDIO ? audioGroups.get(attributes.AUDIO) : undefined;
+    variants.push({
+      bandwidth: toNumber(attributes['AVERAGE-BANDWIDTH']) ?? toNumber(attributes.BANDWIDTH),
+      ...(width > 0 && height > 0 && { width, height }),
+      video: new URL(uri, playlistUrl).href,
+      ...(audio && { audio })
+    });
+  });
+
+  return variants;
+}
+
+/**
+ * Parse XML into an element tree; enough for DASH manifests, which use no mixed content
+ */
+const parseXml = (text: string): XmlElement => {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack = [root];
+  const source = text.replace(/<!--[\s\S]*?-->/g, '').replace(/<\?[\s\S]*?\?>/g, '').replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1');
+
+  for (const match of source.matchAll(/<(\/?)([A-Za-z_][\w.:-]*)((?:"[^"]*"|'[^']*'|[^>"'])*?)(\/?)>|([^<]+)/g)) {
+    const [, closing, qualifiedName, attributeText, selfClosing, text] = match;
+    const parent = stack[stack.length - 1];
+    if (text !== undefined) {
+      parent.text += text;
+      continue;
+    }
+
+    const name = qualifiedName.split(':').pop()!;
+    if (closing) {
+      if (stack.length > 1) stack.pop();
+      continue;
+    }
+
+    const attributes: Record<string, string> = {};
+    for (const attribute of attributeText.matchAll(/([\w.:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+      attributes[attribute[1].split(':').pop()!] = (attribute[2] ?? attribute[3])
+        .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+    }
+    const element: XmlElement = { name, attributes, children: [], text: '' };
+    parent.children.push(element);
+    if (!selfClosing) stack.push(element);
+  }
+
+  return root;
+};
+
+const child = (element: XmlElement | undefined, name: string): XmlElement | undefined => {
+  return element?.children.find(candidate => candidate.name === name);
+};
+
+const childrenNamed = (element: XmlElement, name: string): XmlElement[] => {
+  return element.children.filter(candidate => candidate.name === name);
+};
+
+/**
+ * Parse an ISO 8601 duration such as PT1H2M3.5S into seconds
+ */
+const parseIsoDuration = (value: string | undefined): number | undefined => {
+  const match = value?.match(/^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/);
+  if (!match) return undefined;
+  const [, days, hours, minutes, seconds] = match.map(part => Number(part ?? 0));
+  return days * 86400 + hours * 3600 + minutes * 60 + seconds;
+};
+
+/**
+ * Resolve the BaseURL of an element against its parent's
+ */
+const withBaseUrl = (baseUrl: string, element: XmlElement | undefined): string => {
+  const base = child(element, 'BaseURL')?.text.trim();
+  return base ? new URL(base, baseUrl).href : baseUrl;
+};
+
+/**
+ * Fill a SegmentTemplate pattern such as $RepresentationID$/$Number%05d$.m4s
+ */
+const fillTemplate = (template: string, values: Record<string, string | number>): string => {
+  return template.replace(/\$(\w*)(?:%0(\d+)d)?\$/g, (token, name: string, width?: string) => {
+    if (name === '') return '$';
+    const value = values[name];
+    if (value === undefined) return token;
+    return width ? String(value).padStart(Number(width), '0') : String(value);
+  });
+};
+
+/**
+ * List the segments of a representation from its SegmentTemplate, SegmentList or single BaseURL;
+ * templates are expanded only as far as the first maxSeconds
+ */
+const representationSegments = (
+  adaptationSet: XmlElement,
+  representation: XmlElement,
+  baseUrl: string,
+  periodSeconds: number,
+  maxSeconds: number
+): SegmentList => {
+  const values = { RepresentationID: representation.attributes.id ?? '', Bandwidth: representation.attributes.bandwidth ?? '' };
+
+  // Representation settings override the adaptation set's
+  const setTemplate = child(adaptationSet, 'SegmentTemplate');
+  const ownTemplate = child(representation, 'SegmentTemplate');
+  if (setTemplate || ownTemplate) {
+    const attributes = { ...setTemplate?.attributes, ...ownTemplate?.attributes };
+    const timeline = child(ownTemplate, 'SegmentTimeline') ?? child(setTemplate, 'SegmentTimeline');
+    const timescale = toNumber(attributes.timescale) ?? 1;
+    const startNumber = toNumber(attributes.startNumber) ?? 1;
+    if (!attributes.media) {
+      throw new Error('DASH SegmentTemplate without a media pattern is not supported');
+    }
+
+    const segments: MediaSegment[] = [];
+    let covered = 0;
+    // Returns false once the wanted duration is covered
+    const addSegment = (number: number, time: number, duration: number): boolean => {
+      if (covered >= maxSeconds) return false;
+      if (segments.length >= MAX_TEMPLATE_SEGMENTS) {
+        throw new Error(`DASH SegmentTemplate lists more than ${MAX_TEMPLATE_SEGMENTS} segments`);
+      }
+      segments.push({
+        url: new URL(fillTemplate(attributes.media, { ...values, Number: number, Time: time }), baseUrl).href,
+        duration: duration / timescale
+      });
+      covered += duration / timescale;
+      return true;
+    };
+
+    if (timeline) {
+      let time = 0;
+      for (const entry of childrenNamed(timeline, 'S')) {
+        time = toNumber(entry.attributes.t) ?? time;
+        const duration = toNumber(entry.attributes.d) ?? 0;
+        let repeat = toNumber(entry.attributes.r) ?? 0;
+        if (repeat < 0) {
+          // A negative repeat runs to the end of the period
+          repeat = duration > 0 ? Math.ceil((periodSeconds * timescale - time) / duration) - 1 : 0;
+        }
+        for (let index = 0; index <= repeat && duration > 0; index++) {
+          if (!addSegment(startNumber + segments.length, time, duration)) break;
+          time += duration;
+        }
+      }
+    } else {
+      const duration = toNumber(attributes.duration);
+      if (!duration) {
+        throw new Error('DASH SegmentTemplate without a duration or timeline is not supported');
+      }
+      const count = Math.ceil((periodSeconds * timescale) / duration);
+      for (let index = 0; index < count; index++) {
+        if (!addSegment(startNumber + index, index * duration, duration)) break;
+      }
+    }
+
+    return {
+      ...(attributes.initialization && { initUrl: new URL(fillTemplate(attributes.initialization, values), baseUrl).href }),
+      segments
+    };
+  }
+
+  const segmentList = child(representation, 'SegmentList') ?? child(adaptationSet, 'SegmentList');
+  if (segmentList) {
+    const timescale = toNumber(segmentList.attributes.timescale) ?? 1;
+    const duration = (toNumber(segmentList.attributes.duration) ?? 0) / timescale;
+    const initUrl = child(segmentList, 'Initialization')?.attributes.sourceURL;
+    const urls = childrenNamed(segmentList, 'SegmentURL').map(segment => segment.attributes.media).filter(Boolean);
+    return {
+      ...(initUrl && { initUrl: new URL(initUrl, baseUrl).href }),
+      segments: urls.map(url => ({ url: new URL(url, baseUrl).href, duration: duration || periodSeconds / urls.length }))
+    };
+  }
+
+  // A single file per representation
+  return { segments: [{ url: baseUrl, duration: periodSeconds }] };
+};
+
+/**
+ * Parse a static DASH manifest into variants, each video representation paired with the best audio representation.
+ * With maxDuration, segment templates are expanded only far enough to cover that many seconds.
+ */
+export function parseDashManifest(text: string, manifestUrl: string, maxDuration?: number): StreamVariant[] {
+  const mpd = child(parseXml(text), 'MPD');
+  if (!mpd) {
+    throw new Error('Not a DASH manifest');
+  }
+  if (mpd.attributes.type === 'dynamic') {
+    throw new Error('Live DASH streams are not supported');
+  }
+
+  // Only the first period is ingested; later ones are usually ads or separate programs
+  const period = child(mpd, 'Period');
+  if (!period) {
+    throw new Error('DASH manifest has no periods');
+  }
+  const periodSeconds = parseIsoDuration(period.attributes.duration) ?? parseIsoDuration(mpd.attributes.mediaPresentationDuration);
+  if (periodSeconds === undefined) {
+    throw new Error('DASH manifest has no duration');
+  }
+  const periodBase = withBaseUrl(withBaseUrl(manifestUrl, mpd), period);
+  const maxSeconds = Math.min(periodSeconds, maxDuration ?? Infinity);
+
+  const tracks: Array<{ kind: string; bandwidth?: number; width?: number; height?: number; source: SegmentList }> = [];
+  for (const adaptationSet of childrenNamed(period, 'AdaptationSet')) {
+    const setBase = withBaseUrl(periodBase, adaptationSet);
+    for (const representation of childrenNamed(adaptationSet, 'Representation')) {
+      const mimeType = representation.attributes.mimeType ?? adaptationSet.attributes.mimeType ?? '';
+      const kind = adaptationSet.attributes.contentType ?? mimeType.split('/')[0];
+      if (kind !== 'video' && kind !== 'audio') continue;
+
+      const attributes = { ...adaptationSet.attributes, ...representation.attributes };
+      tracks.push({
+        kind,
+        bandwidth: toNumber(attributes.bandwidth),
+        width: toNumber(attributes.width),
+        height: toNumber(attributes.height),
+        source: representationSegments(adaptationSet, representation, withBaseUrl(setBase, representation), periodSeconds, maxSeconds)
+      });
+    }
+  }
+
+  const audio = tracks
+    .filter(track => track.kind === 'audio')
+    .sort((a, b) => (b.bandwidth ?? 0) - (a.bandwidth ?? 0))[0];
+  const video = tracks.filter(track => track.kind === 'video');
+
+  // Audio-only manifests are ingested as a single audio variant
+  if (video.length === 0) {
+    return audio ? [{ bandwidth: audio.bandwidth, video: audio.source }] : [];
+  }
+  return video.map(track => ({
+    bandwidth: track.bandwidth,
+    ...(track.width && track.height && { width: track.width, height: track.height }),
+    video: track.source,
+    ...(audio && { audio: audio.source })
+  }));
+}
+
+/**
+ * Pick the highest-bandwidth variant within the limits, or the smallest one when none fit
+ */
+export function selectVariant(variants: StreamVariant[], options: StreamOptions): StreamVariant {
+  if (variants.length === 0) {
+    throw new Error('Stream has no playable variants');
+  }
+
+  const byBandwidth = [...variants].sort((a, b) => (b.bandwidth ?? 0) - (a.bandwidth ?? 0));
+  const fitting = byBandwidth.filter(variant =>
+    (options.maxHeight === undefined || variant.height === undefined || variant.height <= options.maxHeight) &&
+    (options.maxBandwidth === undefined || variant.bandwidth === undefined || variant.bandwidth <= options.maxBandwidth)
+  );
+  return fitting[0] ?? byBandwidth[byBandwidth.length - 1];
+}
+
+/**
+ * Keep the segments needed to cover the first maxDuration seconds
+ */
+export function limitSegments(list: SegmentList, maxDuration?: number): SegmentList {
+  if (maxDuration === undefined) return list;
+
+  const segments: MediaSegment[] = [];
+  let covered = 0;
+  for (const segment of list.segments) {
+    if (covered >= maxDuration) break;
+    segments.push(segment);
+    covered += segment.duration;
+  }
+  return { ...list, segments };
+}
@@ -0,0 +1,164 @@
+/**
+ * Registry of media and document formats accepted by Gemini, with content sniffing
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+export type MediaCategory = 'image' | 'video' | 'audio' | 'document';
+
+export interface MediaFormat {
+  mimeType: string;       // MIME type sent to Gemini
+  category: MediaCategory;
+  extensions: string[];   // First entry is used for generated filenames
+  aliases?: string[];     // Other MIME types servers use for the same format
+}
+
+// Bytes needed to recognize every signature below
+export const SNIFF_LENGTH = 64;
+
+export const MEDIA_FORMATS: MediaFormat[] = [
+  // Images
+  { mimeType: 'image/jpeg', category: 'image', extensions: ['.jpg', '.jpeg', '.jpe'], aliases: ['image/jpg', 'image/pjpeg'] },
+  { mimeType: 'image/png', category: 'image', extensions: ['.png'] },
+  { mimeType: 'image/webp', category: 'image', extensions: ['.webp'] },
+  { mimeType: 'image/gif', category: 'image', extensions: ['.gif'] },
+  { mimeType: 'image/heic', category: 'image', extensions: ['.heic'] },
+  { mimeType: 'image/heif', category: 'image', extensions: ['.heif'] },
+  // Videos
+  { mimeType: 'video/mp4', category: 'video', extensions: ['.mp4', '.m4v'] },
+  { mimeType: 'video/mpeg', category: 'video', extensions: ['.mpeg', '.mpg'], aliases: ['video/mpg'] },
+  { mimeType: 'video/mov', category: 'video', extensions: ['.mov', '.qt'], aliases: ['video/quicktime'] },
+  { mimeType: 'video/avi', category: 'video', extensions: ['.avi'], aliases: ['video/x-msvideo', 'video/msvideo'] },
+  { mimeType: 'video/webm', category: 'video', extensions: ['.webm'] },
+  { mimeType: 'video/x-flv', category: 'video', extensions: ['.flv'] },
+  { mimeType: 'video/wmv', category: 'video', extensions: ['.wmv'], aliases: ['video/x-ms-wmv', 'video/x-ms-asf'] },
+  { mimeType: 'video/3gpp', category: 'video', extensions: ['.3gp', '.3gpp'] },
+  // Audio
+  { mimeType: 'audio/mp3', category: 'audio', extensions: ['.mp3'], aliases: ['audio/mpeg', 'audio/mpeg3', 'audio/x-mp3', 'audio/x-mpeg-3'] },
+  { mimeType: 'audio/wav', category: 'audio', extensions: ['.wav'], aliases: ['audio/x-wav', 'audio/wave', 'audio/vnd.wave'] },
+  { mimeType: 'audio/ogg', category: 'audio', extensions: ['.ogg', '.oga', '.opus'], aliases: ['audio/opus', 'application/ogg'] },
+  { mimeType: 'audio/flac', category: 'audio', extensions: ['.flac'], aliases: ['audio/x-flac'] },
+  { mimeType: 'audio/aac', category: 'audio', extensions: ['.aac'], aliases: ['audio/x-aac', 'audio/aacp'] },
+  { mimeType: 'audio/mp4', category: 'audio', extensions: ['.m4a'], aliases: ['audio/x-m4a', 'audio/m4a'] },
+  { mimeType: 'audio/aiff', category: 'audio', extensions: ['.aiff', '.aif', '.aifc'], aliases: ['audio/x-aiff'] },
+  // Documents
+  { mimeType: 'application/pdf', category: 'document', extensions: ['.pdf'], aliases: ['application/x-pdf'] }
+];
+
+const byMimeType = new Map<string, MediaFormat>(
+  MEDIA_FORMATS.flatMap(format => [format.mimeType, ...(format.aliases ?? [])].map(type => [type, format] as const))
+);
+
+const byExtension = new Map<string, MediaFormat>(
+  MEDIA_FORMATS.flatMap(format => format.extensions.map(ext => [ext, format] as const))
+);
+
+const ascii = (data: Buffer, start: number, end: number): string => data.toString('latin1', start, end);
+
+/**
+ * Identify an ISO base media file (MP4, MOV, M4A, 3GP, HEIC) by its ftyp brand; generic brands such as isom
+ * and mp42 are shared by video, audio and image files, so those are left to the extension or Content-Type
+ */
+const sniffIsoBrand = (data: Buffer): string | undefined => {
+  const box = ascii(data, 4, 8);
+  if (box !== 'ftyp') {
+    // Old QuickTime files start straight with a movie or data atom
+    return ['moov', 'mdat', 'wide', 'free', 'skip'].includes(box) ? 'video/mov' : undefined;
+  }
+
+  const brand = ascii(data, 8, 12);
+  if (brand === 'qt  ') return 'video/mov';
+  if (brand === 'M4A ' || brand === 'M4B ') return 'audio/mp4';
+  if (brand.startsWith('3gp') || brand.startsWith('3g2')) return 'video/3gpp';
+  if (['heic', 'heix', 'hevc', 'hevx'].includes(brand)) return 'image/heic';
+  if (['mif1', 'msf1', 'heif'].includes(brand)) return 'image/heif';
+  if (brand === 'M4V ' || brand === 'M4VP') return 'video/mp4';
+  return undefined;
+};
+
+/**
+ * Detect the MIME type from the leading bytes of a file
+ */
+const sniffMimeType = (data: Buffer): string | undefined => {
+  if (data.length < 4) return undefined;
+
+  if (ascii(data, 0, 5) === '%PDF-') return 'application/pdf';
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'image/jpeg';
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'image/png';
+  if (ascii(data, 0, 6) === 'GIF87a' || ascii(data, 0, 6) === 'GIF89a') return 'image/gif';
+
+  if (ascii(data, 0, 4) === 'RIFF') {
+    const type = ascii(data, 8, 12);
+    if (type === 'WEBP') return 'image/webp';
+    if (type === 'WAVE') return 'audio/wav';
+    if (type === 'AVI ') return 'video/avi';
+    return undefined;
+  }
+  if (ascii(data, 0, 4) === 'FORM' && ['AIFF', 'AIFC'].includes(ascii(data, 8, 12))) return 'audio/aiff';
+
+  const isoType = sniffIsoBrand(data);
+  if (isoType) return isoType;
+
+  // Matroska container; only the WebM profile is accepted
+  if (data[0] === 0x1a && data[1] === 0x45 && data[2] === 0xdf && data[3] === 0xa3) {
+    return ascii(data, 0, data.length).includes('webm') ? 'video/webm' : undefined;
+  }
+  if (data[0] === 0x00 && data[1] === 0x00 && data[2] === 0x01 && (data[3] === 0xba || data[3] === 0xb3)) return 'video/mpeg';
+  if (ascii(data, 0, 3) === 'FLV') return 'video/x-flv';
+  if (data.subarray(0, 8).equals(Buffer.from([0x30, 0x26, 0xb2, 0x75, 0x8e, 0x66, 0xcf, 0x11]))) return 'video/wmv';
+
+  if (ascii(data, 0, 4) === 'OggS') return 'audio/ogg';
+  if (ascii(data, 0, 4) === 'fLaC') return 'audio/flac';
+  if (ascii(data, 0, 3) === 'ID3') return 'audio/mp3';
+  if (data[0] === 0xff && (data[1] & 0xf6) === 0xf0) return 'audio/aac';      // ADTS frame header
+  if (data[0] === 0xff && (data[1] & 0xe0) === 0xe0 && (data[1] & 0x06) !== 0) return 'audio/mp3';  // MPEG audio frame sync
+
+  return undefined;
+};
+
+/**
+ * Find a format by MIME type or one of its aliases, ignoring parameters
+ */
+export const getFormatByMimeType = (mimeType: string | undefined): MediaFormat | undefined => {
+  if (!mimeType) return undefined;
+  return byMimeType.get(mimeType.split(';')[0].trim().toLowerCase());
+};
+
+/**
+ * Find a format by the extension of a file name, path or URL path
+ */
+export const getFormatByExtension = (filename: string | undefined): MediaFormat | undefined => {
+  if (!filename) return undefined;
+  return byExtension.get(path.extname(filename).toLowerCase());
+};
+
+/**
+ * Detect the format of media data from its magic bytes, falling back to the file extension
+ */
+export const detectFormat = (data: Buffer, filename?: string): MediaFormat | undefined => {
+  return getFormatByMimeType(sniffMimeType(data.subarray(0, SNIFF_LENGTH))) ?? getFormatByExtension(filename);
+};
+
+/**
+ * Detect the format of a local file, reading only its header
+ */
+export const detectFileFormat = (filePath: string): MediaFormat | undefined => {
+  const header = Buffer.alloc(SNIFF_LENGTH);
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const bytesRead = fs.readSync(fd, header, 0, SNIFF_LENGTH, 0);
+    return detectFormat(header.subarray(0, bytesRead), filePath);
+  } finally {
+    fs.closeSync(fd);
+  }
+};
+
+/**
+ * Accepted file extensions, optionally limited to one category
+ */
+export const getSupportedExtensions = (category?: MediaCategory): string[] => {
+  return MEDIA_FORMATS
+    .filter(format => !category || format.category === category)
+    .flatMap(format => format.extensions);
+};
@@ -0,0 +1,165 @@
+/**
+ * Moderation rubric, schema and verdict merging with Gemini safety ratings
+ */
+
+import { parseTimestamp } from './timestamps.js';
+import type {
+  JsonSchema,
+  ModerationCategory,
+  ModerationPolicyCategory,
+  ModerationSeverity,
+  ModerationVerdict,
+  SafetyRatingInfo
+} from '../types/index.js';
+
+const SEVERITIES: ModerationSeverity[] = ['none', 'low', 'medium', 'high'];
+
+/**
+ * Rubric text for the built-in categories
+ */
+export const MODERATION_CATEGORY_DESCRIPTIONS: Record<ModerationCategory, string> = {
+  violence: 'Physical harm, fighting, weapons used against people or animals, blood and gore',
+  nudity: 'Nudity, sexual activity or sexually suggestive content',
+  hate_symbols: 'Symbols, gestures, slogans or speech that promote hatred against protected groups',
+  self_harm: 'Suicide, self-injury or eating disorders, shown or encouraged'
+};
+
+// Gemini safety categories that inform each built-in category
+const SAFETY_CATEGORY_MAP: Record<string, ModerationCategory[]> = {
+  HARM_CATEGORY_SEXUALLY_EXPLICIT: ['nudity'],
+  HARM_CATEGORY_HATE_SPEECH: ['hate_symbols'],
+  HARM_CATEGORY_DANGEROUS_CONTENT: ['violence', 'self_harm']
+};
+
+// Gemini harm probabilities as severities
+const PROBABILITY_SEVERITIES: Record<string, ModerationSeverity> = {
+  NEGLIGIBLE: 'none',
+  LOW: 'low',
+  MEDIUM: 'medium',
+  HIGH: 'high'
+};
+
+interface RawModeration {
+  verdicts: Array<{
+    category: string;
+    severity: string;
+    confidence: number;
+    rationale: string;
+    timestamps?: Array<{ start: string; end: string }>;
+  }>;
+}
+
+const severityRank = (severity: ModerationSeverity): number => SEVERITIES.indexOf(severity);
+
+/**
+ * Combine the requested built-in and custom categories into one policy
+ */
+export function buildPolicy(categories: ModerationCategory[], customCategories: ModerationPolicyCategory[]): ModerationPolicyCategory[] {
+  const policy = new Map<string, string>();
+  for (const category of categories) {
+    policy.set(category, MODERATION_CATEGORY_DESCRIPTIONS[category]);
+  }
+  for (const custom of customCategories) {
+    policy.set(custom.name, custom.description);
+  }
+  return [...policy].map(([name, description]) => ({ name, description }));
+}
+
+/**
+ * Response schema with one verdict per policy category
+ */
+export function buildModerationSchema(policy: ModerationPolicyCategory[], timed: boolean): JsonSchema {
+  return {
+    type: 'object',
+    properties: {
+      verdicts: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            category: { type: 'string', enum: policy.map(category => category.name) },
+            severity: { type: 'string', enum: SEVERITIES },
+            confidence: { type: 'number', description: 'Confidence in the severity, from 0 to 1' },
+            rationale: { type: 'string', description: 'What in the media led to this verdict' },
+            ...(timed && {
+              timestamps: {
+                type: 'array',
+                description: 'Where the content occurs, as HH:MM:SS start and end times',
+                items: {
+                  type: 'object',
+                  properties: { start: { type: 'string' }, end: { type: 'string' } },
+                  required: ['start', 'end']
+                }
+              }
+            })
+          },
+          required: ['category', 'severity', 'confidence', 'rationale']
+        }
+      }
+    },
+    required: ['verdicts']
+  };
+}
+
+/**
+ * Build the rubric prompt for the policy
+ */
+export function buildModerationPrompt(policy: ModerationPolicyCategory[], timed: boolean): string {
+  return [
+    'You are a content moderator. Review this media against each policy category below and give exactly one verdict per category.',
+    'Severity is "none" when the content is absent, "low" for mild or incidental depictions, "medium" for clear depictions and "high" for graphic, explicit or promoting content.',
+    timed ? 'For any severity above "none", list when the content occurs.' : '',
+    'Categories:',
+    ...policy.map(category => `- ${category.name}: ${category.description}`)
+  ].filter(Boolean).join('\n');
+}
+
+/**
+ * Turn model verdicts into one verdict per policy category, raised to the severity of matching Gemini safety ratings
+ */
+export function toModerationVerdicts(
+  data: unknown,
+  policy: ModerationPolicyCategory[],
+  flagSeverity: ModerationSeverity,
+  timed: boolean,
+  safetyRatings: SafetyRatingInfo[] = [],
+  missingRationale: string = 'No verdict was returned for this category'
+): ModerationVerdict[] {
+  const raw = (data as RawModeration | undefined)?.verdicts ?? [];
+
+  return policy.map(({ name }) => {
+    const verdict = raw.find(candidate => candidate.category === name);
+    const rubricSeverity = verdict?.severity as ModerationSeverity | undefined;
+    let severity: ModerationSeverity = rubricSeverity && SEVERITIES.includes(rubricSeverity) ? rubricSeverity : 'none';
+
+    // Safety ratings only raise the rubric verdict, never lower it
+    let safetyRating: string | undefined;
+    for (const rating of safetyRatings) {
+      const ratedSeverity = PROBABILITY_SEVERITIES[rating.probability ?? ''];
+      if (!SAFETY_CATEGORY_MAP[rating.category]?.includes(name as ModerationCategory) || !ratedSeverity) continue;
+      if (severityRank(ratedSeverity) > severityRank(severity)) {
+        severity = ratedSeverity;
+        safetyRating = `${rating.category}: ${rating.probability}`;
+      }
+    }
+
+    const timestamps = timed && severity !== 'none'
+      ? (verdict?.timestamps ?? []).flatMap(range => {
+          const start = parseTimestamp(range.start);
+          if (start === undefined) return [];
+          const end = parseTimestamp(range.end);
+          return [{ start, end: end !== undefined && end >= start ? end : start }];
+        })
+      : undefined;
+
+    return {
+      category: name,
+      severity,
+      flagged: severity !== 'none' && severityRank(severity) >= severityRank(flagSeverity),
+      confidence: verdict && Number.isFinite(verdict.confidence) ? Math.min(Math.max(verdict.confidence, 0), 1) : 0,
+      rationale: verdict?.rationale.trim() || missingRationale,
+      ...(timestamps && { timestamps }),
+      ...(safetyRating && { safetyRating })
+    };
+  });
+}
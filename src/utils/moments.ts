@@ -0,0 +1,72 @@
+/**
+ * Moment search prompt, schema and validation
+ */
+
+import { formatTimestamp, parseTimestamp } from './timestamps.js';
+import type { JsonSchema, VideoMoment } from '../types/index.js';
+
+// Span given to moments without a usable end time; timestamps have whole-second precision
+const MIN_MOMENT_SECONDS = 1;
+
+/**
+ * Response schema for moment search
+ */
+export const MOMENTS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    moments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          start: { type: 'string', description: 'Start time as HH:MM:SS' },
+          end: { type: 'string', description: 'End time as HH:MM:SS' },
+          confidence: { type: 'number', description: 'How certain the match is, from 0 to 1' },
+          justification: { type: 'string', description: 'What is seen or heard that matches the query' }
+        },
+        required: ['start', 'end', 'confidence', 'justification']
+      }
+    }
+  },
+  required: ['moments']
+};
+
+interface RawMoments {
+  moments: Array<{ start: string; end: string; confidence: number; justification: string }>;
+}
+
+/**
+ * Build the moment search prompt
+ */
+export function buildMomentsPrompt(query: string, maxResults: number, durationSeconds?: number): string {
+  return [
+    `Find the moments in this video that match the following query: ${query}`,
+    'For each match give start and end times as HH:MM:SS, a confidence from 0 to 1 and a one sentence justification describing what is seen or heard.',
+    durationSeconds !== undefined ? `The video is ${formatTimestamp(durationSeconds)} long.` : '',
+    `Return at most ${maxResults} moments, and an empty list if nothing matches.`
+  ].filter(Boolean).join(' ');
+}
+
+/**
+ * Turn model output into moments inside the video duration, keeping the most confident ones in time order
+ */
+export function toMoments(data: unknown, maxResults: number, durationSeconds?: number): VideoMoment[] {
+  const raw = data as RawMoments;
+  return raw.moments
+    .flatMap(moment => {
+      const start = parseTimestamp(moment.start);
+      if (start === undefined) return [];
+      if (durationSeconds !== undefined && start >= durationSeconds) return [];
+
+      const parsedEnd = parseTimestamp(moment.end);
+      let end = parsedEnd !== undefined && parsedEnd > start ? parsedEnd : start + MIN_MOMENT_SECONDS;
+      if (durationSeconds !== undefined) {
+        end = Math.min(end, durationSeconds);
+      }
+      const confidence = Number.isFinite(moment.confidence) ? Math.min(Math.max(moment.confidence, 0), 1) : 0;
+      return [{ start, end, confidence, justification: moment.justification.trim() }];
+    })
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, maxResults)
+    .sort((a, b) => a.start - b.start);
+}
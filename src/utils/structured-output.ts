@@ -0,0 +1,223 @@
+/**
+ * Structured (JSON Schema constrained) output helpers
+ */
+
+import { Ajv } from 'ajv';
+import type { ValidateFunction } from 'ajv';
+import { Type } from '@google/genai';
+import type { Schema } from '@google/genai';
+import type { JsonSchema, SchemaPreset } from '../types/index.js';
+
+/**
+ * Named schemas callers can request instead of supplying their own
+ */
+export const SCHEMA_PRESETS: Record<SchemaPreset, JsonSchema> = {
+  summary: {
+    type: 'object',
+    properties: {
+      title: { type: 'string', description: 'Short title for the content' },
+      summary: { type: 'string', description: 'One paragraph summary' },
+      keyPoints: { type: 'array', items: { type: 'string' } },
+      tags: { type: 'array', items: { type: 'string' } }
+    },
+    required: ['summary', 'keyPoints', 'tags']
+  },
+  objects: {
+    type: 'object',
+    properties: {
+      objects: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            label: { type: 'string' },
+            description: { type: 'string' },
+            count: { type: 'integer', minimum: 1 }
+          },
+          required: ['label', 'count']
+        }
+      }
+    },
+    required: ['objects']
+  },
+  transcript: {
+    type: 'object',
+    properties: {
+      language: { type: 'string', description: 'Spoken language (BCP-47 code)' },
+      segments: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            start: { type: 'string', description: 'Start time as MM:SS' },
+            end: { type: 'string', description: 'End time as MM:SS' },
+            speaker: { type: 'string' },
+            text: { type: 'string' }
+          },
+          required: ['start', 'text']
+        }
+      }
+    },
+    required: ['segments']
+  },
+  scenes: {
+    type: 'object',
+    properties: {
+      scenes: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            start: { type: 'string', description: 'Start time as MM:SS' },
+            end: { type: 'string', description: 'End time as MM:SS' },
+            description: { type: 'string' }
+          },
+          required: ['start', 'end', 'description']
+        }
+      }
+    },
+    required: ['scenes']
+  }
+};
+
+const TYPE_MAP: Record<string, Type> = {
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+  array: Type.ARRAY,
+  object: Type.OBJECT
+};
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+
+// Requests may send any schema, so only the most recently used validators are kept
+const MAX_CACHED_VALIDATORS = 32;
+const validators: Map<string, ValidateFunction> = new Map();
+
+/**
+ * Compile a schema or reuse a recent validator. Ajv's own cache never shrinks, so each schema is removed from it after compiling.
+ */
+const getValidator = (schema: JsonSchema): ValidateFunction => {
+  const key = JSON.stringify(schema);
+  const cached = validators.get(key);
+  if (cached) {
+    // Re-inserting keeps the map ordered from least to most recently used
+    validators.delete(key);
+    validators.set(key, cached);
+    return cached;
+  }
+
+  const validate = ajv.compile(schema);
+  ajv.removeSchema(schema);
+  validators.set(key, validate);
+  if (validators.size > MAX_CACHED_VALIDATORS) {
+    validators.delete(validators.keys().next().value!);
+  }
+  return validate;
+};
+
+/**
+ * Pick the schema for a request: an explicit schema wins over a preset
+ */
+export function resolveResponseSchema(
+  responseSchema?: JsonSchema,
+  schemaPreset?: SchemaPreset
+): JsonSchema | undefined {
+  if (responseSchema) {
+    return responseSchema;
+  }
+  return schemaPreset ? SCHEMA_PRESETS[schemaPreset] : undefined;
+}
+
+/**
+ * Convert a JSON Schema into the OpenAPI subset understood by Gemini.
+ * Keywords Gemini does not support are dropped; validation still uses the full schema.
+ */
+export function toGeminiSchema(schema: JsonSchema): Schema {
+  const result: Schema = {};
+  let type = schema.type;
+
+  // JSON Schema allows ["string", "null"]; Gemini expresses that as nullable
+  if (Array.isArray(type)) {
+    const types = type.filter(t => t !== 'null');
+    if (types.length !== type.length) {
+      result.nullable = true;
+    }
+    type = types[0];
+  }
+
+  if (typeof type === 'string' && TYPE_MAP[type]) {
+    result.type = TYPE_MAP[type];
+  }
+  if (typeof schema.description === 'string') {
+    result.description = schema.description;
+  }
+  if (typeof schema.format === 'string') {
+    result.format = schema.format;
+  }
+  if (Array.isArray(schema.enum)) {
+    result.enum = schema.enum.map(value => String(value));
+  }
+  if (Array.isArray(schema.required)) {
+    result.required = schema.required as string[];
+  }
+  if (typeof schema.minimum === 'number') {
+    result.minimum = schema.minimum;
+  }
+  if (typeof schema.maximum === 'number') {
+    result.maximum = schema.maximum;
+  }
+  if (typeof schema.minItems === 'number') {
+    result.minItems = String(schema.minItems);
+  }
+  if (typeof schema.maxItems === 'number') {
+    result.maxItems = String(schema.maxItems);
+  }
+  if (schema.items && typeof schema.items === 'object' && !Array.isArray(schema.items)) {
+    result.items = toGeminiSchema(schema.items as JsonSchema);
+  }
+  if (Array.isArray(schema.anyOf)) {
+    result.anyOf = (schema.anyOf as JsonSchema[]).map(toGeminiSchema);
+  }
+  if (schema.properties && typeof schema.properties === 'object') {
+    const properties = schema.properties as Record<string, JsonSchema>;
+    result.properties = {};
+    for (const [key, value] of Object.entries(properties)) {
+      result.properties[key] = toGeminiSchema(value);
+    }
+    // Keep the caller's field order in the generated output
+    result.propertyOrdering = Object.keys(properties);
+  }
+
+  return result;
+}
+
+/**
+ * Parse model output and validate it against the requested schema
+ */
+export function parseStructuredOutput(text: string, schema: JsonSchema): unknown {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Model did not return valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const validate = getValidator(schema);
+  if (!validate(data)) {
+    throw new Error(`Model output does not match the requested schema: ${ajv.errorsText(validate.errors)}`);
+  }
+
+  return data;
+}
+
+/**
+ * MCP structuredContent must be an object, so array or scalar results are only sent as text
+ */
+export function toStructuredContent(data: unknown): Record<string, unknown> | undefined {
+  if (data && typeof data === 'object' && !Array.isArray(data)) {
+    return data as Record<string, unknown>;
+  }
+  return undefined;
+}
@@ -0,0 +1,117 @@
+/**
+ * Transcript normalization and subtitle rendering
+ */
+
+import { formatCueTimestamp, parseTimestamp } from './timestamps.js';
+import type { JsonSchema, SubtitleFormat, Transcript, TranscriptSegment } from '../types/index.js';
+
+// Cue length used when the model gives no usable end time
+const DEFAULT_CUE_SECONDS = 2;
+
+// Shortest cue kept when clamping to the next cue; players reject cues that end where they start
+const MIN_CUE_SECONDS = 0.1;
+
+/**
+ * Response schema for timestamped transcription
+ */
+export const TRANSCRIPTION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    language: { type: 'string', description: 'Spoken language (BCP-47 code)' },
+    segments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          start: { type: 'string', description: 'Start time as HH:MM:SS.mmm' },
+          end: { type: 'string', description: 'End time as HH:MM:SS.mmm' },
+          speaker: { type: 'string', description: 'Speaker label, e.g. "Speaker 1" or a name if stated' },
+          text: { type: 'string' }
+        },
+        required: ['start', 'end', 'text']
+      }
+    }
+  },
+  required: ['segments']
+};
+
+interface RawTranscript {
+  language?: string;
+  segments: Array<{ start: string; end: string; speaker?: string; text: string }>;
+}
+
+/**
+ * Build the transcription prompt for the requested options
+ */
+export function buildTranscriptionPrompt(language?: string, speakerLabels: boolean = true): string {
+  return [
+    'Transcribe all speech in this recording verbatim.',
+    'Split it into short subtitle segments of one or two sentences, in order, with start and end times as HH:MM:SS.mmm from the beginning of the recording.',
+    speakerLabels ? 'Label each segment with its speaker; use "Speaker 1", "Speaker 2" and so on unless names are stated.' : 'Leave the speaker empty.',
+    language ? `The spoken language is ${language}.` : 'Report the spoken language.'
+  ].join(' ');
+}
+
+/**
+ * Convert model output to a clean transcript: seconds, ordered, with non-overlapping cues
+ */
+export function toTranscript(data: unknown): Transcript {
+  const raw = data as RawTranscript;
+  const segments: TranscriptSegment[] = raw.segments
+    .flatMap(segment => {
+      const start = parseTimestamp(segment.start);
+      const speaker = segment.speaker?.trim();
+      const text = segment.text.trim();
+      // Drop cues without a usable start time or text
+      return start === undefined || !text ? [] : [{
+        start,
+        end: parseTimestamp(segment.end),
+        ...(speaker && { speaker }),
+        text
+      }];
+    })
+    .sort((a, b) => a.start - b.start)
+    .map((segment, index, sorted) => {
+      const next = sorted[index + 1];
+      let end = segment.end !== undefined && segment.end > segment.start ? segment.end : segment.start + DEFAULT_CUE_SECONDS;
+      if (next && end > next.start) {
+        end = Math.max(next.start, segment.start + MIN_CUE_SECONDS);
+      }
+      return { ...segment, end };
+    });
+
+  return {
+    ...(raw.language && { language: raw.language }),
+    segments
+  };
+}
+
+/**
+ * Escape text for a WebVTT cue; escaping ">" also turns a "-->" in the text into "--&gt;", which cannot end the cue
+ */
+const escapeVtt = (text: string): string => {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+};
+
+/**
+ * Render a transcript as SRT, WebVTT or JSON
+ */
+export function renderTranscript(transcript: Transcript, format: SubtitleFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(transcript, null, 2);
+  }
+
+  if (format === 'vtt') {
+    const cues = transcript.segments.map(segment =>
+      `${formatCueTimestamp(segment.start, '.')} --> ${formatCueTimestamp(segment.end, '.')}\n` +
+      (segment.speaker ? `<v ${escapeVtt(segment.speaker)}>${escapeVtt(segment.text)}` : escapeVtt(segment.text))
+    );
+    return ['WEBVTT', ...cues].join('\n\n') + '\n';
+  }
+
+  const cues = transcript.segments.map((segment, index) =>
+    `${index + 1}\n${formatCueTimestamp(segment.start, ',')} --> ${formatCueTimestamp(segment.end, ',')}\n` +
+    (segment.speaker ? `${segment.speaker}: ${segment.text}` : segment.text)
+  );
+  return cues.join('\n\n') + '\n';
+}
@@ -0,0 +1,46 @@
+/**
+ * Helpers for media timestamps
+ */
+
+/**
+ * Format seconds as HH:MM:SS, or MM:SS for media shorter than an hour
+ */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  return hours > 0 ? `${pad(hours)}:${pad(minutes)}:${pad(secs)}` : `${pad(minutes)}:${pad(secs)}`;
+}
+
+/**
+ * Format seconds as HH:MM:SS followed by milliseconds, as used in subtitle cues
+ */
+export function formatCueTimestamp(seconds: number, millisecondSeparator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${millisecondSeparator}${pad(ms, 3)}`;
+}
+
+/**
+ * Parse "HH:MM:SS", "MM:SS" or plain seconds, each with optional fractions; undefined when malformed
+ */
+export function parseTimestamp(value: string | number | undefined): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value >= 0 ? value : undefined;
+  }
+  if (!value) return undefined;
+
+  const parts = value.trim().replace(',', '.').split(':');
+  if (parts.length > 3 || parts.some(part => !/^\d+(\.\d+)?$/.test(part))) {
+    return undefined;
+  }
+  return parts.reduce((total, part) => total * 60 + parseFloat(part), 0);
+}
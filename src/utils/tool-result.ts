@@ -0,0 +1,40 @@
+/**
+ * Formatting of recognition results as MCP tool results
+ */
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { toStructuredContent } from './structured-output.js';
+import type { GeminiResponse, ResponseMetadata } from '../types/index.js';
+
+/**
+ * Short note for answers that did not finish normally, so they are not mistaken for complete ones
+ */
+function describeIncompleteResponse(metadata?: ResponseMetadata): string | undefined {
+  if (!metadata?.finishReason || metadata.finishReason === 'STOP') {
+    return undefined;
+  }
+  if (metadata.finishReason === 'MAX_TOKENS') {
+    return '[Response truncated: maxOutputTokens reached]';
+  }
+  return `[Response ended early: ${metadata.finishReason}]`;
+}
+
+/**
+ * Build a tool result with the answer text, validated structured data and response metadata
+ */
+export function toRecognitionToolResult(response: GeminiResponse): CallToolResult {
+  const structuredContent = toStructuredContent(response.data);
+  const note = response.isError ? undefined : describeIncompleteResponse(response.metadata);
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: note ? `${response.text}\n\n${note}` : response.text
+      }
+    ],
+    ...(structuredContent && { structuredContent }),
+    ...(response.metadata && { _meta: { ...response.metadata } }),
+    ...(response.isError && { isError: true })
+  };
+}
@@ -0,0 +1,58 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { CostEstimator } from '../../src/services/cost-estimator.js';
+import { FakeRecognitionProvider } from '../../src/services/fake-provider.js';
+
+describe('CostEstimator', () => {
+  it('prices input tokens at the model rate', () => {
+    expect(new CostEstimator().priceTokens('gemini-2.5-flash', 'video/mp4', 2_000_000)).toEqual({
+      model: 'gemini-2.5-flash',
+      mimeType: 'video/mp4',
+      inputTokens: 2_000_000,
+      inputPricePerMillion: 0.3,
+      outputPricePerMillion: 2.5,
+      estimatedInputCostUsd: 0.6
+    });
+  });
+
+  it('uses the audio rate for audio and the long context rates above the threshold', () => {
+    const estimator = new CostEstimator();
+
+    expect(estimator.priceTokens('gemini-2.5-flash', 'audio/mpeg', 1_000_000).estimatedInputCostUsd).toBe(1);
+    expect(estimator.priceTokens('gemini-2.5-pro', 'video/mp4', 200_000)).toMatchObject({ inputPricePerMillion: 1.25, outputPricePerMillion: 10 });
+    expect(estimator.priceTokens('gemini-2.5-pro', 'video/mp4', 200_001)).toMatchObject({ inputPricePerMillion: 2.5, outputPricePerMillion: 15 });
+  });
+
+  it('falls back to the longest matching model prefix', () => {
+    const estimator = new CostEstimator();
+
+    expect(estimator.getPrice('gemini-2.5-flash-lite-preview-06-17')?.input).toBe(0.1);
+    expect(estimator.getPrice('gemini-2.5-flash-001')?.input).toBe(0.3);
+    expect(estimator.priceTokens('unknown-model', 'image/png', 100).estimatedInputCostUsd).toBeNull();
+  });
+
+  it('merges prices from a price table file over the defaults', () => {
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cost-estimator-'));
+    try {
+      const tablePath = path.join(workDir, 'prices.json');
+      fs.writeFileSync(tablePath, JSON.stringify({ 'gemini-2.5-flash': { input: 0.5, output: 3 } }));
+      const estimator = new CostEstimator(tablePath);
+
+      expect(estimator.getPrice('gemini-2.5-flash')).toEqual({ input: 0.5, output: 3 });
+      expect(estimator.getPrice('gemini-2.0-flash')?.input).toBe(0.1);
+      expect(() => new CostEstimator(path.join(workDir, 'missing.json'))).toThrow('Failed to load price table');
+    } finally {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    }
+  });
+
+  it('estimates from the token count reported by the provider', async () => {
+    const file = { uri: 'fake://files/a', mimeType: 'image/png', name: 'files/a' };
+    const estimate = await new CostEstimator().estimate(new FakeRecognitionProvider(), file, 'Describe this', 'gemini-2.0-flash');
+
+    expect(estimate.inputTokens).toBe(258 + 4);
+    expect(estimate.estimatedInputCostUsd).toBe(0.000026);
+  });
+});
@@ -0,0 +1,71 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { FakeRecognitionProvider } from '../../src/services/fake-provider.js';
+import { CHAPTERS_SCHEMA, toChapters } from '../../src/utils/chapters.js';
+import type { FakeScript } from '../../src/services/fake-provider.js';
+
+const script: FakeScript = {
+  responses: [
+    { prompt: 'chapters', mimeType: 'video/', data: { chapters: [{ start: '00:00', end: '00:10', title: 'Intro', summary: 'Opening' }] } },
+    { prompt: 'fail', error: 'scripted failure' },
+    { model: 'gemini-2.5-pro', text: 'pro answer' }
+  ]
+};
+
+describe('FakeRecognitionProvider', () => {
+  let workDir: string;
+  let provider: FakeRecognitionProvider;
+  let videoPath: string;
+
+  beforeAll(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fake-provider-'));
+    const scriptPath = path.join(workDir, 'script.json');
+    fs.writeFileSync(scriptPath, JSON.stringify(script));
+    videoPath = path.join(workDir, 'clip.mp4');
+    fs.writeFileSync(videoPath, Buffer.from('not really a video'));
+    provider = new FakeRecognitionProvider({ scriptPath });
+  });
+
+  afterAll(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('uploads files under a content-derived name', async () => {
+    const first = await provider.uploadFile(videoPath);
+    const second = await provider.uploadFile(videoPath);
+
+    expect(first).toEqual(second);
+    expect(first.mimeType).toBe('video/mp4');
+    expect(await provider.listFiles()).toHaveLength(1);
+  });
+
+  it('returns scripted structured output validated against the schema', async () => {
+    const file = await provider.uploadFile(videoPath);
+    const result = await provider.processFile(file, 'Detect chapters', 'gemini-2.5-flash', { responseSchema: CHAPTERS_SCHEMA });
+
+    expect(result.isError).toBeUndefined();
+    expect(toChapters(result.data, 10)).toEqual([{ start: 0, end: 10, title: 'Intro', summary: 'Opening' }]);
+    expect(result.metadata?.usage?.totalTokens).toBeGreaterThan(0);
+  });
+
+  it('reports scripted errors and matches rules by model', async () => {
+    const file = await provider.uploadFile(videoPath);
+
+    expect(await provider.processFile(file, 'Please fail', 'gemini-2.5-flash')).toMatchObject({ isError: true });
+    expect((await provider.processText('Anything', 'gemini-2.5-pro')).text).toBe('pro answer');
+    expect((await provider.processText('Anything', 'gemini-2.5-flash')).text).toBe('[fake:gemini-2.5-flash] text: Anything');
+  });
+
+  it('deletes files it knows and rejects others', async () => {
+    const file = await provider.uploadFile(videoPath);
+
+    const checksum = (await provider.describeFile(file.name!)).cachedChecksum!;
+    expect(await provider.getValidCachedFile(checksum)).toEqual(file);
+
+    await provider.deleteFile(file.name!);
+    await expect(provider.describeFile(file.name!)).rejects.toThrow('File not found');
+    expect(await provider.getValidCachedFile(checksum)).toBeNull();
+  });
+});
@@ -0,0 +1,138 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { ApiError, FileState } from '@google/genai';
+import type { File } from '@google/genai';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { GeminiService } from '../../src/services/gemini.js';
+import type { CachedFile, FileCacheStore } from '../../src/types/index.js';
+
+const CHECKSUM = 'd41d8cd98f00b204e9800998ecf8427e';
+
+class MemoryCacheStore implements FileCacheStore {
+  readonly files: Map<string, CachedFile> = new Map();
+
+  async getCachedFile(checksum: string): Promise<CachedFile | null> {
+    return this.files.get(checksum) ?? null;
+  }
+
+  async listCachedFiles(): Promise<CachedFile[]> {
+    return Array.from(this.files.values());
+  }
+
+  async saveCachedFile(file: CachedFile): Promise<void> {
+    this.files.set(file.checksum, file);
+  }
+
+  async deleteCachedFile(checksum: string): Promise<void> {
+    this.files.delete(checksum);
+  }
+}
+
+const remoteFile = (name: string, state: FileState): File => ({
+  name,
+  uri: `https://generativelanguage.googleapis.com/v1beta/${name}`,
+  mimeType: 'image/png',
+  state
+});
+
+const cachedFile = (name: string, expiresAt = Date.now() + 60_000): CachedFile => ({
+  fileId: name,
+  checksum: CHECKSUM,
+  uri: `https://generativelanguage.googleapis.com/v1beta/${name}`,
+  mimeType: 'image/png',
+  name,
+  state: FileState.ACTIVE,
+  timestamp: Date.now(),
+  expiresAt
+});
+
+/**
+ * A service over an in-memory cache store whose Files API calls are stubbed
+ */
+const createService = (store: MemoryCacheStore) => {
+  const service = new GeminiService({ apiKey: 'test-key', maxRetries: 0 }, store);
+  const files = service['client'].files;
+  return {
+    service,
+    get: vi.spyOn(files, 'get'),
+    upload: vi.spyOn(files, 'upload').mockResolvedValue(remoteFile('files/new', FileState.ACTIVE)),
+    remove: vi.spyOn(files, 'delete')
+  };
+};
+
+describe('GeminiService upload cache', () => {
+  let workDir: string;
+  let imagePath: string;
+
+  beforeAll(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gemini-service-'));
+    imagePath = path.join(workDir, 'image.png');
+    fs.writeFileSync(imagePath, Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]));
+  });
+
+  afterAll(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('reuses a stored upload that is still active remotely', async () => {
+    const store = new MemoryCacheStore();
+    await store.saveCachedFile(cachedFile('files/old'));
+    const { service, get, upload } = createService(store);
+    get.mockResolvedValue(remoteFile('files/old', FileState.ACTIVE));
+
+    const file = await service.uploadFile(imagePath, CHECKSUM);
+
+    expect(file.name).toBe('files/old');
+    expect(get).toHaveBeenCalledWith({ name: 'files/old' });
+    expect(upload).not.toHaveBeenCalled();
+  });
+
+  it('evicts an expired entry without asking the API and uploads again', async () => {
+    const store = new MemoryCacheStore();
+    await store.saveCachedFile(cachedFile('files/old', Date.now() - 1000));
+    const { service, get, upload } = createService(store);
+
+    const file = await service.uploadFile(imagePath, CHECKSUM);
+
+    expect(file.name).toBe('files/new');
+    expect(get).not.toHaveBeenCalled();
+    expect(upload).toHaveBeenCalledOnce();
+    expect(store.files.get(CHECKSUM)?.name).toBe('files/new');
+  });
+
+  it('evicts uploads that are gone or failed remotely', async () => {
+    for (const lookup of [
+      () => Promise.reject(new ApiError({ message: 'You do not have permission to access the File old or it may not exist.', status: 403 })),
+      () => Promise.resolve(remoteFile('files/old', FileState.FAILED))
+    ]) {
+      const store = new MemoryCacheStore();
+      await store.saveCachedFile(cachedFile('files/old'));
+      const { service, get, upload } = createService(store);
+      get.mockImplementation(lookup);
+
+      expect(await service.getValidCachedFile(CHECKSUM)).toBeNull();
+      expect(store.files.size).toBe(0);
+
+      expect((await service.uploadFile(imagePath, CHECKSUM)).name).toBe('files/new');
+      expect(upload).toHaveBeenCalledOnce();
+    }
+  });
+});
+
+describe('GeminiService.deleteFile', () => {
+  it('evicts the cache entry when the file is already gone and rethrows other errors', async () => {
+    const store = new MemoryCacheStore();
+    await store.saveCachedFile(cachedFile('files/old'));
+    const { service, remove } = createService(store);
+
+    remove.mockRejectedValueOnce(new ApiError({ message: 'Invalid argument', status: 400 }));
+    await expect(service.deleteFile('old')).rejects.toThrow('Invalid argument');
+    expect(store.files.size).toBe(1);
+
+    remove.mockRejectedValueOnce(new ApiError({ message: 'File not found', status: 404 }));
+    await service.deleteFile('old');
+    expect(remove).toHaveBeenLastCalledWith({ name: 'files/old' });
+    expect(store.files.size).toBe(0);
+  });
+});
@@ -0,0 +1,156 @@
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs';
+import * as http from 'node:http';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { AddressInfo } from 'node:net';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { FfmpegService } from '../../src/services/ffmpeg.js';
+import { MediaDownloaderService } from '../../src/services/media-downloader.js';
+import { RequestProfiles } from '../../src/services/request-profiles.js';
+
+type Handler = (request: http.IncomingMessage, response: http.ServerResponse) => void;
+
+// A PNG signature followed by enough bytes to arrive in several chunks
+const BODY = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), crypto.randomBytes(256 * 1024)]);
+const CHECKSUM = crypto.createHash('md5').update(BODY).digest('hex');
+const HALF = BODY.length / 2;
+
+describe('MediaDownloaderService', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let handler: Handler;
+  let ranges: Array<string | undefined> = [];
+  const downloaded: string[] = [];
+
+  const createDownloader = (maxFileSize?: number) =>
+    new MediaDownloaderService(new FfmpegService(), new RequestProfiles(), { allowPrivateNetworks: true }, maxFileSize);
+
+  const download = async (maxFileSize?: number) => {
+    const result = await createDownloader(maxFileSize).downloadMedia(`${baseUrl}/image.png`);
+    downloaded.push(result.filepath);
+    return result;
+  };
+
+  beforeAll(async () => {
+    server = http.createServer((request, response) => {
+      if (request.method === 'GET') ranges.push(request.headers.range);
+      handler(request, response);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(() => {
+    ranges = [];
+    for (const filepath of downloaded.splice(0)) {
+      fs.rmSync(filepath, { force: true });
+    }
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  /**
+   * Serve the body, dropping the connection halfway through the first full response
+   */
+  const interruptedServer = (honourRange: boolean): Handler => {
+    let interrupted = false;
+    return (request, response) => {
+      const headers = { 'Content-Type': 'image/png', 'Accept-Ranges': 'bytes', 'ETag': '"v1"' };
+      const match = /^bytes=(\d+)-$/.exec(request.headers.range ?? '');
+      if (honourRange && match && request.headers['if-range'] === '"v1"') {
+        const start = Number(match[1]);
+        response.writeHead(206, { ...headers, 'Content-Range': `bytes ${start}-${BODY.length - 1}/${BODY.length}`, 'Content-Length': BODY.length - start });
+        response.end(BODY.subarray(start));
+        return;
+      }
+
+      response.writeHead(200, { ...headers, 'Content-Length': BODY.length });
+      if (request.method === 'HEAD' || interrupted) {
+        response.end(request.method === 'HEAD' ? undefined : BODY);
+        return;
+      }
+      interrupted = true;
+      response.write(BODY.subarray(0, HALF), () => setTimeout(() => response.destroy(), 50));
+    };
+  };
+
+  it('resumes an interrupted download with a Range request', async () => {
+    handler = interruptedServer(true);
+
+    const result = await download();
+
+    expect(ranges[0]).toBeUndefined();
+    expect(ranges[1]).toMatch(/^bytes=\d+-$/);
+    expect(result).toMatchObject({ mimeType: 'image/png', fileSize: BODY.length, checksum: CHECKSUM });
+    expect(fs.readFileSync(result.filepath).equals(BODY)).toBe(true);
+  });
+
+  it('starts over when the server answers the Range request with the whole file', async () => {
+    handler = interruptedServer(false);
+
+    const result = await download();
+
+    expect(ranges).toHaveLength(2);
+    expect(ranges[1]).toBeDefined();
+    expect(result).toMatchObject({ fileSize: BODY.length, checksum: CHECKSUM });
+  });
+
+  it('rejects a file whose declared length is over the limit', async () => {
+    handler = (request, response) => {
+      response.writeHead(200, { 'Content-Type': 'image/png', 'Content-Length': BODY.length });
+      response.end(request.method === 'HEAD' ? undefined : BODY);
+    };
+
+    await expect(download(1024)).rejects.toThrow(`File too large: ${BODY.length} bytes (max: 1024 bytes)`);
+    expect(ranges).toEqual([]);
+  });
+
+  it('stops a download without a declared length once it passes the limit', async () => {
+    handler = (request, response) => {
+      response.writeHead(200, { 'Content-Type': 'image/png' });
+      response.end(request.method === 'HEAD' ? undefined : BODY);
+    };
+
+    await expect(download(HALF)).rejects.toThrow(`(max: ${HALF} bytes)`);
+    expect(ranges).toHaveLength(1);
+  });
+
+  it('follows redirects of proxied requests itself and checks each target', async () => {
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'media-downloader-'));
+    try {
+      // The test server plays the proxy, which receives absolute URLs
+      const profilesPath = path.join(workDir, 'profiles.json');
+      fs.writeFileSync(profilesPath, JSON.stringify({ profiles: [{ name: 'proxied', domains: ['media.example'], proxy: baseUrl }] }));
+      const proxied: string[] = [];
+      handler = (request, response) => {
+        proxied.push(`${request.method} ${request.url}`);
+        const location = { '/moved.png': '/image.png', '/elsewhere.png': 'http://blocked.example/image.png' }[new URL(request.url!).pathname];
+        response.writeHead(location ? 302 : 200, location ? { 'Location': location } : { 'Content-Type': 'image/png', 'Content-Length': BODY.length });
+        response.end(location || request.method === 'HEAD' ? undefined : BODY);
+      };
+      const downloader = new MediaDownloaderService(
+        new FfmpegService(), new RequestProfiles(profilesPath), { allowPrivateNetworks: true, blockedDomains: ['blocked.example'] }
+      );
+
+      const result = await downloader.downloadMedia('http://media.example/moved.png');
+      downloaded.push(result.filepath);
+      expect(result.checksum).toBe(CHECKSUM);
+      expect(proxied).toEqual([
+        'HEAD http://media.example/moved.png',
+        'HEAD http://media.example/image.png',
+        'GET http://media.example/moved.png',
+        'GET http://media.example/image.png'
+      ]);
+
+      proxied.length = 0;
+      await expect(downloader.downloadMedia('http://media.example/elsewhere.png')).rejects.toThrow('blocked.example is on the domain denylist');
+      expect(proxied).toEqual(['HEAD http://media.example/elsewhere.png']);
+    } finally {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { QuotaExhaustedError, RequestScheduler } from '../../src/services/request-scheduler.js';
+
+const httpError = (status: number, message = `HTTP ${status}`) => Object.assign(new Error(message), { status });
+
+describe('RequestScheduler', () => {
+  it('retries retryable failures until the task succeeds', async () => {
+    const scheduler = new RequestScheduler({ baseDelayMs: 1, maxDelayMs: 1 });
+    let attempts = 0;
+
+    const result = await scheduler.schedule('model', async () => {
+      attempts++;
+      if (attempts < 3) throw httpError(503);
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(attempts).toBe(3);
+  });
+
+  it('gives up with QuotaExhaustedError after the last retry, keeping the retry hint', async () => {
+    const scheduler = new RequestScheduler({ maxRetries: 2, baseDelayMs: 1, maxDelayMs: 1 });
+    let attempts = 0;
+
+    const failure = await scheduler.schedule('model', async () => {
+      attempts++;
+      throw httpError(429, '{"error": {"details": [{"retryDelay": "0.01s"}]}}');
+    }).catch((error: unknown) => error);
+
+    expect(failure).toBeInstanceOf(QuotaExhaustedError);
+    expect(failure).toMatchObject({ status: 429, attempts: 3, retryAfterMs: 10 });
+    expect(attempts).toBe(3);
+  });
+
+  it('does not retry other failures', async () => {
+    const scheduler = new RequestScheduler({ baseDelayMs: 1 });
+    let attempts = 0;
+
+    await expect(scheduler.schedule('model', async () => {
+      attempts++;
+      throw httpError(400, 'Bad request');
+    })).rejects.toThrow('Bad request');
+    expect(attempts).toBe(1);
+  });
+
+  it('limits concurrent requests per key', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrency: 2 });
+    const running = new Map<string, number>();
+    const peak = new Map<string, number>();
+
+    const task = (key: string) => scheduler.schedule(key, async () => {
+      running.set(key, (running.get(key) ?? 0) + 1);
+      peak.set(key, Math.max(peak.get(key) ?? 0, running.get(key)!));
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running.set(key, running.get(key)! - 1);
+    });
+
+    await Promise.all([...Array.from({ length: 5 }, () => task('a')), task('b')]);
+
+    expect(peak.get('a')).toBe(2);
+    expect(peak.get('b')).toBe(1);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { UrlPolicy, UrlPolicyError, findUrlPolicyError } from '../../src/services/url-policy.js';
+
+describe('UrlPolicy', () => {
+  it('allows public HTTP and HTTPS URLs by default', () => {
+    const policy = new UrlPolicy();
+    expect(() => policy.checkUrl('https://example.com/video.mp4')).not.toThrow();
+    expect(() => policy.checkUrl('http://93.184.216.34/video.mp4')).not.toThrow();
+  });
+
+  it('rejects other schemes and invalid URLs', () => {
+    const policy = new UrlPolicy();
+    expect(() => policy.checkUrl('file:///etc/passwd')).toThrow('URL not allowed: scheme file is not allowed');
+    expect(() => policy.checkUrl('not a url')).toThrow(UrlPolicyError);
+  });
+
+  it('rejects private, loopback and link-local IP literals', () => {
+    const policy = new UrlPolicy();
+    for (const url of [
+      'http://127.0.0.1/',
+      'http://10.1.2.3/',
+      'http://169.254.169.254/latest/meta-data/',
+      'http://[::1]/',
+      'http://[::ffff:127.0.0.1]/',
+      'http://[2002:7f00:1::]/',
+      'http://[fd00::1]/'
+    ]) {
+      expect(() => policy.checkUrl(url), url).toThrow('is a non-public address');
+    }
+  });
+
+  it('allows private addresses when configured', () => {
+    const policy = new UrlPolicy({ allowPrivateNetworks: true });
+    expect(() => policy.checkUrl('http://192.168.1.10/video.mp4')).not.toThrow();
+  });
+
+  it('applies the domain allowlist and denylist to subdomains', () => {
+    const policy = new UrlPolicy({ allowedDomains: ['example.com'], blockedDomains: ['ads.example.com.'] });
+    expect(() => policy.checkUrl('https://media.example.com/a.mp4')).not.toThrow();
+    expect(() => policy.checkUrl('https://notexample.com/a.mp4')).toThrow('notexample.com is not on the domain allowlist');
+    expect(() => policy.checkUrl('https://x.ads.EXAMPLE.com/a.mp4')).toThrow('x.ads.example.com is on the domain denylist');
+  });
+
+  it('resolves hostnames for requests that do not resolve them on connect', async () => {
+    await expect(new UrlPolicy().checkResolvedUrl('http://localhost:8080/'))
+      .rejects.toThrow('localhost resolves to the non-public address');
+    await expect(new UrlPolicy({ allowPrivateNetworks: true }).checkResolvedUrl('http://localhost:8080/')).resolves.toBeUndefined();
+  });
+
+  it('names the hostname when a resolved address is blocked', () => {
+    const policy = new UrlPolicy();
+    expect(() => policy.checkAddress('10.0.0.5', 'internal.example.com'))
+      .toThrow('internal.example.com resolves to the non-public address 10.0.0.5');
+  });
+});
+
+describe('findUrlPolicyError', () => {
+  it('finds a policy error in the cause chain', () => {
+    const policyError = new UrlPolicyError('10.0.0.5 is a non-public address');
+    const wrapped = new Error('connect failed', { cause: new Error('lookup failed', { cause: policyError }) });
+    expect(findUrlPolicyError(wrapped)).toBe(policyError);
+    expect(findUrlPolicyError(new Error('timeout'))).toBeUndefined();
+  });
+});
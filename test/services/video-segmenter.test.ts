@@ -0,0 +1,97 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { CostEstimator } from '../../src/services/cost-estimator.js';
+import { FakeRecognitionProvider } from '../../src/services/fake-provider.js';
+import { FfmpegService } from '../../src/services/ffmpeg.js';
+import { VideoSegmenter } from '../../src/services/video-segmenter.js';
+import type { MediaProbe } from '../../src/types/index.js';
+
+/**
+ * Records the requested cuts and writes a placeholder instead of running ffmpeg
+ */
+class RecordingFfmpegService extends FfmpegService {
+  readonly cuts: Array<[number, number]> = [];
+
+  async cutSegment(inputPath: string, startSeconds: number, durationSeconds: number, outputPath: string): Promise<void> {
+    this.cuts.push([startSeconds, durationSeconds]);
+    fs.writeFileSync(outputPath, `${inputPath} from ${startSeconds} for ${durationSeconds}`);
+  }
+}
+
+const probe = (durationSeconds: number, sizeBytes = 1000): MediaProbe => ({ durationSeconds, sizeBytes, hasVideo: true, hasAudio: true });
+
+describe('VideoSegmenter', () => {
+  let workDir: string;
+  let videoPath: string;
+
+  beforeAll(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'video-segmenter-'));
+    videoPath = path.join(workDir, 'long.mp4');
+    fs.writeFileSync(videoPath, 'not really a video');
+  });
+
+  afterAll(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('only segments videos over the duration or size limit', () => {
+    const segmenter = new VideoSegmenter(new FfmpegService(), { maxDurationSeconds: 600, maxSizeBytes: 5000 });
+
+    expect(segmenter.needsSegmentation(probe(600))).toBe(false);
+    expect(segmenter.needsSegmentation(probe(601))).toBe(true);
+    expect(segmenter.needsSegmentation(probe(60, 5001))).toBe(true);
+    expect(segmenter.needsSegmentation(probe(1200), { startOffset: 300, endOffset: 900 })).toBe(false);
+    expect(segmenter.needsSegmentation(probe(0))).toBe(false);
+  });
+
+  it('rejects an overlap that is not shorter than the segments', () => {
+    expect(() => new VideoSegmenter(new FfmpegService(), { segmentSeconds: 60, overlapSeconds: 60 }))
+      .toThrow('Segment overlap must be shorter than the segment duration');
+  });
+
+  it('analyzes overlapping segments and merges their answers with full-video time ranges', async () => {
+    const ffmpeg = new RecordingFfmpegService();
+    const segmenter = new VideoSegmenter(ffmpeg, { segmentSeconds: 600, overlapSeconds: 10 });
+
+    const { response, segments } = await segmenter.analyze(new FakeRecognitionProvider(), videoPath, probe(1500), 'List the scenes', 'gemini-2.5-flash');
+
+    expect(ffmpeg.cuts).toEqual([[0, 600], [590, 600], [1180, 320]]);
+    expect(segments.map(({ index, startOffset, endOffset }) => ({ index, startOffset, endOffset }))).toEqual([
+      { index: 0, startOffset: 0, endOffset: 600 },
+      { index: 1, startOffset: 590, endOffset: 1190 },
+      { index: 2, startOffset: 1180, endOffset: 1500 }
+    ]);
+    expect(segments[1].result).toContain('part 2 of 3 of a longer video and covers 09:50 to 19:50');
+    expect(response.text).toContain('Request: List the scenes');
+    expect(response.text).toContain('[Part 3: 19:40-25:00]');
+    expect(response.metadata?.usage?.totalTokens).toBeGreaterThan(0);
+  });
+
+  it('plans segments within the requested clip', async () => {
+    const ffmpeg = new RecordingFfmpegService();
+    const segmenter = new VideoSegmenter(ffmpeg, { segmentSeconds: 200, overlapSeconds: 10 });
+
+    const { segments } = await segmenter.analyze(new FakeRecognitionProvider(), videoPath, probe(1500), 'Summarize', 'gemini-2.5-flash', {
+      videoClip: { startOffset: 100, endOffset: 400 }
+    });
+
+    expect(segments.map(segment => [segment.startOffset, segment.endOffset])).toEqual([[100, 300], [290, 400]]);
+  });
+
+  it('shortens segments of large files and sums the estimates of all segments', async () => {
+    const ffmpeg = new RecordingFfmpegService();
+    const segmenter = new VideoSegmenter(ffmpeg, { maxSizeBytes: 1000, segmentSeconds: 600, overlapSeconds: 10 });
+
+    // 20 bytes per second leaves 45 seconds per segment under 90% of the size limit
+    const estimate = await segmenter.estimate(
+      new FakeRecognitionProvider(), new CostEstimator(), videoPath, probe(100, 2000), 'Describe', 'gemini-2.0-flash'
+    );
+
+    expect(ffmpeg.cuts).toEqual([[0, 45], [35, 45], [70, 30]]);
+    expect(estimate.segmentCount).toBe(3);
+    expect(estimate.inputTokens).toBeGreaterThan(3 * 258);
+    expect(estimate.estimatedInputCostUsd).toBeCloseTo(estimate.inputTokens * 0.1 / 1_000_000, 5);
+  });
+});
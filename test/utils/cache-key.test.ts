@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { getCacheKey } from '../../src/utils/cache-key.js';
+
+describe('getCacheKey', () => {
+  it('ignores key order, including in nested objects', () => {
+    const a = getCacheKey({ prompt: 'Describe', model: 'm', generationConfig: { temperature: 0.2, topP: 0.9 } });
+    const b = getCacheKey({ generationConfig: { topP: 0.9, temperature: 0.2 }, model: 'm', prompt: 'Describe' });
+
+    expect(a).toBe(b);
+    expect(a).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('treats unset fields as absent', () => {
+    expect(getCacheKey({ prompt: 'Describe', responseSchema: undefined })).toBe(getCacheKey({ prompt: 'Describe' }));
+  });
+
+  it('changes with every field an analysis depends on', () => {
+    const base = {
+      prompt: 'Describe',
+      model: 'gemini-2.5-flash',
+      responseSchema: { type: 'object' },
+      generationConfig: { temperature: 0.2 },
+      videoClip: { startOffset: 10, endOffset: 20 },
+      frameSampling: { selection: 'uniform', frameCount: 8 },
+      stream: { maxHeight: 720 }
+    };
+    const variants = [
+      { prompt: 'Summarize' },
+      { model: 'gemini-2.5-pro' },
+      { responseSchema: { type: 'array' } },
+      { generationConfig: { temperature: 0.3 } },
+      { videoClip: { startOffset: 10, endOffset: 30 } },
+      { frameSampling: { selection: 'scene', frameCount: 8 } },
+      { stream: { maxHeight: 1080 } }
+    ];
+
+    const keys = new Set([base, ...variants.map(change => ({ ...base, ...change }))].map(getCacheKey));
+    expect(keys.size).toBe(variants.length + 1);
+  });
+
+  it('keeps array order significant', () => {
+    expect(getCacheKey({ list: [1, 2] })).not.toBe(getCacheKey({ list: [2, 1] }));
+  });
+});
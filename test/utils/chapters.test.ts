@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { toChapters } from '../../src/utils/chapters.js';
+
+describe('toChapters', () => {
+  it('orders chapters and cuts each end back to the next start', () => {
+    const chapters = toChapters({
+      chapters: [
+        { start: '00:02:00', end: '00:05:00', title: 'Second', summary: 'B ' },
+        { start: '00:00:00', end: '00:02:30', title: ' First ', summary: ' A' }
+      ]
+    }, 300);
+
+    expect(chapters).toEqual([
+      { start: 0, end: 120, title: 'First', summary: 'A' },
+      { start: 120, end: 300, title: 'Second', summary: 'B' }
+    ]);
+  });
+
+  it('drops chapters without a title, with a bad start or past the end of the video', () => {
+    const chapters = toChapters({
+      chapters: [
+        { start: '00:00', end: '01:00', title: 'Intro', summary: '' },
+        { start: 'soon', end: '02:00', title: 'Broken', summary: '' },
+        { start: '01:00', end: '02:00', title: '  ', summary: '' },
+        { start: '10:00', end: '11:00', title: 'Beyond', summary: '' }
+      ]
+    }, 120);
+
+    expect(chapters.map(chapter => chapter.title)).toEqual(['Intro']);
+  });
+
+  it('keeps only the first of chapters sharing a start', () => {
+    const chapters = toChapters({
+      chapters: [
+        { start: '00:00', end: '00:30', title: 'A', summary: '' },
+        { start: '00:00', end: '00:40', title: 'B', summary: '' }
+      ]
+    });
+
+    expect(chapters).toEqual([{ start: 0, end: 30, title: 'A', summary: '' }]);
+  });
+
+  it('ends a chapter with a missing or backwards end at the next chapter or the video end', () => {
+    const chapters = toChapters({
+      chapters: [
+        { start: '00:00', end: '', title: 'A', summary: '' },
+        { start: '01:00', end: '00:10', title: 'B', summary: '' }
+      ]
+    }, 90);
+
+    expect(chapters.map(({ start, end }) => [start, end])).toEqual([[0, 60], [60, 90]]);
+  });
+
+  it('drops a last chapter without an end when the duration is unknown', () => {
+    const chapters = toChapters({
+      chapters: [
+        { start: '00:00', end: '00:30', title: 'A', summary: '' },
+        { start: '01:00', end: '', title: 'B', summary: '' }
+      ]
+    });
+
+    expect(chapters.map(chapter => chapter.title)).toEqual(['A']);
+  });
+
+  it('throws when nothing valid is left', () => {
+    expect(() => toChapters({ chapters: [{ start: 'x', end: 'y', title: 'A', summary: '' }] }))
+      .toThrow('The model returned no valid chapters');
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { toDetectedObjects } from '../../src/utils/detections.js';
+
+const dimensions = { width: 2000, height: 1000 };
+
+describe('toDetectedObjects', () => {
+  it('converts normalized [ymin, xmin, ymax, xmax] boxes to pixels', () => {
+    const objects = toDetectedObjects({
+      objects: [{ label: ' cat ', box_2d: [100, 250, 500, 750], score: 0.8 }]
+    }, dimensions, 10, 0);
+
+    expect(objects).toEqual([{ label: 'cat', score: 0.8, box: { xmin: 500, ymin: 100, xmax: 1500, ymax: 500 } }]);
+  });
+
+  it('swaps reversed corners and clamps coordinates to the image', () => {
+    const [object] = toDetectedObjects({
+      objects: [{ label: 'dog', box_2d: [1200, 900, -50, 100], score: 0.5 }]
+    }, dimensions, 10, 0);
+
+    expect(object.box).toEqual({ xmin: 200, ymin: 0, xmax: 1800, ymax: 1000 });
+  });
+
+  it('drops malformed, empty, unlabelled and low-scoring detections', () => {
+    const objects = toDetectedObjects({
+      objects: [
+        { label: 'short', box_2d: [0, 0, 100], score: 0.9 },
+        { label: 'flat', box_2d: [100, 0, 100, 500], score: 0.9 },
+        { label: 'nan', box_2d: [0, 0, Number.NaN, 100], score: 0.9 },
+        { label: ' ', box_2d: [0, 0, 100, 100], score: 0.9 },
+        { label: 'faint', box_2d: [0, 0, 100, 100], score: 0.2 },
+        { label: 'kept', box_2d: [0, 0, 100, 100], score: 0.9 }
+      ]
+    }, dimensions, 10, 0.5);
+
+    expect(objects.map(object => object.label)).toEqual(['kept']);
+  });
+
+  it('keeps the highest-scoring objects up to the limit', () => {
+    const objects = toDetectedObjects({
+      objects: [
+        { label: 'a', box_2d: [0, 0, 100, 100], score: 0.4 },
+        { label: 'b', box_2d: [0, 0, 100, 100], score: 0.9 },
+        { label: 'c', box_2d: [0, 0, 100, 100], score: 0.6 }
+      ]
+    }, dimensions, 2, 0);
+
+    expect(objects.map(object => object.label)).toEqual(['b', 'c']);
+  });
+});
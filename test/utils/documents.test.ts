@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { buildDocumentSchema, renderDocumentPages, toDocumentPages } from '../../src/utils/documents.js';
+
+describe('toDocumentPages', () => {
+  it('keeps valid increasing page numbers and trims the text', () => {
+    const pages = toDocumentPages({
+      pages: [
+        { page: 2, text: '  Contents\n' },
+        { page: 5, text: 'Chapter one', tables: [{ headers: ['Item', 'Price'], rows: [['Tea', '2.50']] }] }
+      ]
+    });
+
+    expect(pages).toEqual([
+      { page: 2, text: 'Contents' },
+      { page: 5, text: 'Chapter one', tables: [{ headers: ['Item', 'Price'], rows: [['Tea', '2.50']] }] }
+    ]);
+  });
+
+  it('numbers pages by position when the model numbers are missing, repeated or out of order', () => {
+    for (const numbers of [[0, 1], [1, 1], [3, 2], [1.5, 2]]) {
+      const pages = toDocumentPages({ pages: numbers.map(page => ({ page, text: `Page ${page}` })) });
+      expect(pages.map(page => page.page), String(numbers)).toEqual([1, 2]);
+    }
+  });
+});
+
+describe('renderDocumentPages', () => {
+  const pages = [{ page: 1, text: 'First' }, { page: 2, text: 'Second' }];
+
+  it('marks each page in plain text', () => {
+    expect(renderDocumentPages(pages, 'text')).toBe('--- Page 1 ---\nFirst\n\n--- Page 2 ---\nSecond');
+  });
+
+  it('marks each page with a comment in Markdown', () => {
+    expect(renderDocumentPages(pages, 'markdown')).toBe('<!-- Page 1 -->\n\nFirst\n\n<!-- Page 2 -->\n\nSecond');
+  });
+});
+
+describe('buildDocumentSchema', () => {
+  it('requires tables only when they are extracted', () => {
+    type PagesSchema = { properties: { pages: { items: { required: string[]; properties: object } } } };
+    const itemsOf = (extractTables: boolean) => (buildDocumentSchema(extractTables) as PagesSchema).properties.pages.items;
+
+    expect(itemsOf(false).required).toEqual(['page', 'text']);
+    expect(itemsOf(false).properties).not.toHaveProperty('tables');
+    expect(itemsOf(true).required).toEqual(['page', 'text', 'tables']);
+  });
+});
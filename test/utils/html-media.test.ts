@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { findEmbeddedMedia, isHtmlPage } from '../../src/utils/html-media.js';
+
+const PAGE_URL = 'https://www.example.com/watch/42';
+
+describe('findEmbeddedMedia', () => {
+  it('resolves Open Graph videos with their secure URL, type and size', () => {
+    const html = `<html><head>
+      <meta property="og:image" content="/poster.jpg">
+      <meta property="og:video" content="http://cdn.example.com/v.mp4">
+      <meta property="og:video:secure_url" content="https://cdn.example.com/v.mp4?a=1&amp;b=2">
+      <meta property="og:video:type" content="video/mp4">
+      <meta property="og:video:width" content="1280">
+      <meta property="og:video:height" content="720">
+    </head></html>`;
+
+    expect(findEmbeddedMedia(html, PAGE_URL)).toEqual([
+      { url: 'https://cdn.example.com/v.mp4?a=1&b=2', category: 'video', source: 'og:video', mimeType: 'video/mp4', width: 1280, height: 720 },
+      { url: 'https://www.example.com/poster.jpg', category: 'image', source: 'og:image' }
+    ]);
+  });
+
+  it('ranks by the requested categories, then by source', () => {
+    const html = `
+      <video src="/clip.webm"><source src="/clip.mp4" type="video/mp4"></video>
+      <audio src="/theme.mp3"></audio>
+      <meta name="twitter:image" content="https://img.example.com/card.png">`;
+
+    expect(findEmbeddedMedia(html, PAGE_URL, ['audio', 'image']).map(media => media.url)).toEqual([
+      'https://www.example.com/theme.mp3',
+      'https://img.example.com/card.png'
+    ]);
+  });
+
+  it('reads JSON-LD content URLs and treats streaming manifests as video', () => {
+    const html = `<script type="application/ld+json">
+      {"@graph": [{"@type": "VideoObject", "contentUrl": "https://cdn.example.com/master.m3u8", "width": 1920, "height": 1080}]}
+    </script>
+    <script type="application/ld+json">{ not json</script>`;
+
+    expect(findEmbeddedMedia(html, PAGE_URL)).toEqual([
+      { url: 'https://cdn.example.com/master.m3u8', category: 'video', source: 'json-ld', width: 1920, height: 1080 }
+    ]);
+  });
+
+  it('skips player pages, non-HTTP URLs and duplicates', () => {
+    const html = `
+      <meta property="og:video" content="https://www.example.com/embed/42">
+      <meta property="og:video:type" content="text/html">
+      <video src="data:video/mp4;base64,AAAA"></video>
+      <video src="/a.mp4"></video>
+      <video src="https://www.example.com/a.mp4"></video>`;
+
+    expect(findEmbeddedMedia(html, PAGE_URL).map(media => media.url)).toEqual(['https://www.example.com/a.mp4']);
+  });
+});
+
+describe('isHtmlPage', () => {
+  it('recognizes HTML by content type or leading markup', () => {
+    expect(isHtmlPage('text/html; charset=utf-8', Buffer.alloc(0))).toBe(true);
+    expect(isHtmlPage(undefined, Buffer.from('\uFEFF  <!DOCTYPE html><html>'))).toBe(true);
+    expect(isHtmlPage('video/mp4', Buffer.from('....ftypisom'))).toBe(false);
+  });
+});
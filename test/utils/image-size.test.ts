@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { getImageDimensions } from '../../src/utils/image-size.js';
+
+const png = (width: number, height: number): Buffer => {
+  const data = Buffer.alloc(33);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(data);
+  data.writeUInt32BE(13, 8);
+  data.write('IHDR', 12, 'latin1');
+  data.writeUInt32BE(width, 16);
+  data.writeUInt32BE(height, 20);
+  return data;
+};
+
+const gif = (width: number, height: number): Buffer => {
+  const data = Buffer.alloc(13);
+  data.write('GIF89a', 0, 'latin1');
+  data.writeUInt16LE(width, 6);
+  data.writeUInt16LE(height, 8);
+  return data;
+};
+
+// SOI, an APP0 segment to skip, then a baseline SOF0 frame header
+const jpeg = (width: number, height: number): Buffer => {
+  const app0 = Buffer.from([0xff, 0xe0, 0x00, 0x10, ...Buffer.from('JFIF\0'), 1, 1, 0, 0, 1, 0, 1, 0, 0]);
+  const sof0 = Buffer.alloc(19);
+  sof0.writeUInt16BE(0xffc0, 0);
+  sof0.writeUInt16BE(17, 2);
+  sof0[4] = 8;
+  sof0.writeUInt16BE(height, 5);
+  sof0.writeUInt16BE(width, 7);
+  return Buffer.concat([Buffer.from([0xff, 0xd8]), app0, sof0]);
+};
+
+const webp = (chunk: string, body: Buffer): Buffer => {
+  const header = Buffer.alloc(20);
+  header.write('RIFF', 0, 'latin1');
+  header.writeUInt32LE(12 + body.length, 4);
+  header.write('WEBP', 8, 'latin1');
+  header.write(chunk, 12, 'latin1');
+  header.writeUInt32LE(body.length, 16);
+  return Buffer.concat([header, body]);
+};
+
+describe('getImageDimensions', () => {
+  it('reads PNG, GIF and JPEG headers', () => {
+    expect(getImageDimensions(png(640, 480))).toEqual({ width: 640, height: 480 });
+    expect(getImageDimensions(gif(32, 16))).toEqual({ width: 32, height: 16 });
+    expect(getImageDimensions(jpeg(1920, 1080))).toEqual({ width: 1920, height: 1080 });
+  });
+
+  it('reads lossy, lossless and extended WebP headers', () => {
+    const lossy = Buffer.alloc(10);
+    lossy.writeUInt16LE(300, 6);
+    lossy.writeUInt16LE(200, 8);
+    expect(getImageDimensions(webp('VP8 ', lossy))).toEqual({ width: 300, height: 200 });
+
+    const lossless = Buffer.alloc(10);
+    lossless[0] = 0x2f;
+    lossless.writeUInt32LE((400 - 1) | ((250 - 1) << 14), 1);
+    expect(getImageDimensions(webp('VP8L', lossless))).toEqual({ width: 400, height: 250 });
+
+    const extended = Buffer.alloc(10);
+    extended.writeUIntLE(1024 - 1, 4, 3);
+    extended.writeUIntLE(768 - 1, 7, 3);
+    expect(getImageDimensions(webp('VP8X', extended))).toEqual({ width: 1024, height: 768 });
+  });
+
+  it('returns undefined for truncated, empty or unsupported images', () => {
+    expect(getImageDimensions(png(640, 480).subarray(0, 20))).toBeUndefined();
+    expect(getImageDimensions(jpeg(1920, 1080).subarray(0, 24))).toBeUndefined();
+    expect(getImageDimensions(png(0, 480))).toBeUndefined();
+    expect(getImageDimensions(Buffer.from('%PDF-1.7'))).toBeUndefined();
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import { limitSegments, parseDashManifest, parseHlsMediaPlaylist, parseHlsPlaylist, selectVariant } from '../../src/utils/manifests.js';
+
+const MEDIA_PLAYLIST = `#EXTM3U
+#EXT-X-VERSION:7
+#EXT-X-TARGETDURATION:6
+#EXT-X-MAP:URI="init.mp4"
+#EXTINF:6.0,
+seg0.m4s
+#EXTINF:4.5,
+https://cdn.example.com/seg1.m4s
+#EXT-X-ENDLIST
+`;
+
+const dash = (period: string, duration = 'PT10S') => `<?xml version="1.0" encoding="UTF-8"?>
+<MPD xmlns="urn:mpeg:dash:schema:mpd:2011" type="static" mediaPresentationDuration="${duration}">
+  <BaseURL>https://media.example.com/show/</BaseURL>
+  <Period>${period}</Period>
+</MPD>`;
+
+describe('parseHlsMediaPlaylist', () => {
+  it('lists segments and the init segment resolved against the playlist URL', () => {
+    expect(parseHlsMediaPlaylist(MEDIA_PLAYLIST, 'https://example.com/video/index.m3u8')).toEqual({
+      initUrl: 'https://example.com/video/init.mp4',
+      segments: [
+        { url: 'https://example.com/video/seg0.m4s', duration: 6 },
+        { url: 'https://cdn.example.com/seg1.m4s', duration: 4.5 }
+      ]
+    });
+  });
+
+  it('rejects encrypted, byte-range and non-HLS playlists', () => {
+    const encrypted = MEDIA_PLAYLIST.replace('#EXT-X-MAP:URI="init.mp4"', '#EXT-X-KEY:METHOD=AES-128,URI="key"');
+    expect(() => parseHlsMediaPlaylist(encrypted, 'https://example.com/a.m3u8')).toThrow('Encrypted HLS streams are not supported (AES-128)');
+    expect(() => parseHlsMediaPlaylist(`${MEDIA_PLAYLIST}#EXT-X-BYTERANGE:100@0\nseg2.m4s\n`, 'https://example.com/a.m3u8'))
+      .toThrow('byte-range');
+    expect(() => parseHlsMediaPlaylist('<html></html>', 'https://example.com/a.m3u8')).toThrow('Not an HLS playlist');
+  });
+});
+
+describe('parseHlsPlaylist', () => {
+  it('reads variants with their resolution and default audio rendition', () => {
+    const master = `#EXTM3U
+#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aud",NAME="en",DEFAULT=NO,URI="audio/en.m3u8"
+#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aud",NAME="main",DEFAULT=YES,URI="audio/main.m3u8"
+#EXT-X-STREAM-INF:BANDWIDTH=800000,RESOLUTION=640x360,AUDIO="aud"
+360p.m3u8
+#EXT-X-STREAM-INF:BANDWIDTH=2500000,AVERAGE-BANDWIDTH=2000000,RESOLUTION=1280x720,AUDIO="aud"
+720p.m3u8
+`;
+
+    expect(parseHlsPlaylist(master, 'https://example.com/master.m3u8')).toEqual([
+      { bandwidth: 800000, width: 640, height: 360, video: 'https://example.com/360p.m3u8', audio: 'https://example.com/audio/main.m3u8' },
+      { bandwidth: 2000000, width: 1280, height: 720, video: 'https://example.com/720p.m3u8', audio: 'https://example.com/audio/main.m3u8' }
+    ]);
+  });
+
+  it('treats a media playlist as a single variant', () => {
+    const [variant] = parseHlsPlaylist(MEDIA_PLAYLIST, 'https://example.com/video/index.m3u8');
+    expect(typeof variant.video).toBe('object');
+  });
+});
+
+describe('parseDashManifest', () => {
+  it('expands numbered segment templates and pairs video with the best audio', () => {
+    const variants = parseDashManifest(dash(`
+      <AdaptationSet contentType="video" mimeType="video/mp4">
+        <SegmentTemplate initialization="$RepresentationID$/init.mp4" media="$RepresentationID$/seg-$Number%03d$.m4s" duration="4" startNumber="1"/>
+        <Representation id="v720" bandwidth="2000000" width="1280" height="720"/>
+      </AdaptationSet>
+      <AdaptationSet contentType="audio" mimeType="audio/mp4">
+        <SegmentTemplate media="$RepresentationID$/$Number$.m4s" duration="10"/>
+        <Representation id="a64" bandwidth="64000"/>
+        <Representation id="a128" bandwidth="128000"/>
+      </AdaptationSet>`), 'https://example.com/manifest.mpd');
+
+    expect(variants).toHaveLength(1);
+    const [variant] = variants;
+    expect(variant).toMatchObject({ bandwidth: 2000000, width: 1280, height: 720 });
+    expect(variant.video).toEqual({
+      initUrl: 'https://media.example.com/show/v720/init.mp4',
+      segments: [
+        { url: 'https://media.example.com/show/v720/seg-001.m4s', duration: 4 },
+        { url: 'https://media.example.com/show/v720/seg-002.m4s', duration: 4 },
+        { url: 'https://media.example.com/show/v720/seg-003.m4s', duration: 4 }
+      ]
+    });
+    expect(variant.audio).toEqual({ segments: [{ url: 'https://media.example.com/show/a128/1.m4s', duration: 10 }] });
+  });
+
+  it('expands segment timelines with repeats', () => {
+    const [variant] = parseDashManifest(dash(`
+      <AdaptationSet contentType="video">
+        <Representation id="v" bandwidth="1000">
+          <SegmentTemplate media="t$Time$.m4s" timescale="1000">
+            <SegmentTimeline><S t="0" d="4000" r="1"/><S d="2000"/></SegmentTimeline>
+          </SegmentTemplate>
+        </Representation>
+      </AdaptationSet>`), 'https://example.com/manifest.mpd');
+
+    expect(variant.video).toEqual({
+      segments: [
+        { url: 'https://media.example.com/show/t0.m4s', duration: 4 },
+        { url: 'https://media.example.com/show/t4000.m4s', duration: 4 },
+        { url: 'https://media.example.com/show/t8000.m4s', duration: 2 }
+      ]
+    });
+  });
+
+  it('stops expanding templates once maxDuration is covered', () => {
+    const period = `
+      <AdaptationSet contentType="video">
+        <Representation id="v" bandwidth="1000">
+          <SegmentTemplate media="$Number$.m4s" duration="2"/>
+        </Representation>
+      </AdaptationSet>`;
+
+    const [variant] = parseDashManifest(dash(period, 'PT1000000H'), 'https://example.com/manifest.mpd', 60);
+    expect(typeof variant.video === 'object' && variant.video.segments).toHaveLength(30);
+    expect(() => parseDashManifest(dash(period, 'PT1000000H'), 'https://example.com/manifest.mpd'))
+      .toThrow('DASH SegmentTemplate lists more than 20000 segments');
+  });
+
+  it('rejects live and duration-less manifests', () => {
+    expect(() => parseDashManifest('<MPD type="dynamic"><Period/></MPD>', 'https://example.com/live.mpd'))
+      .toThrow('Live DASH streams are not supported');
+    expect(() => parseDashManifest('<MPD type="static"><Period/></MPD>', 'https://example.com/a.mpd'))
+      .toThrow('DASH manifest has no duration');
+  });
+});
+
+describe('selectVariant', () => {
+  const variants = [
+    { bandwidth: 5000000, height: 1080, video: '1080.m3u8' },
+    { bandwidth: 2500000, height: 720, video: '720.m3u8' },
+    { bandwidth: 800000, height: 360, video: '360.m3u8' }
+  ];
+
+  it('picks the best variant within the limits', () => {
+    expect(selectVariant(variants, { maxHeight: 720 }).video).toBe('720.m3u8');
+    expect(selectVariant(variants, { maxBandwidth: 1000000 }).video).toBe('360.m3u8');
+  });
+
+  it('falls back to the smallest variant when none fit', () => {
+    expect(selectVariant(variants, { maxHeight: 240 }).video).toBe('360.m3u8');
+  });
+});
+
+describe('limitSegments', () => {
+  it('keeps the segments covering the first maxDuration seconds', () => {
+    const list = { segments: [1, 2, 3, 4].map(index => ({ url: `${index}.ts`, duration: 6 })) };
+    expect(limitSegments(list, 10).segments.map(segment => segment.url)).toEqual(['1.ts', '2.ts']);
+    expect(limitSegments(list)).toBe(list);
+  });
+});
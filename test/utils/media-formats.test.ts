@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { detectFormat } from '../../src/utils/media-formats.js';
+
+const ftyp = (brand: string): Buffer => {
+  const data = Buffer.alloc(32);
+  data.writeUInt32BE(32, 0);
+  data.write('ftyp', 4, 'latin1');
+  data.write(brand, 8, 'latin1');
+  return data;
+};
+
+describe('detectFormat', () => {
+  it('recognizes ISO media by specific ftyp brands', () => {
+    expect(detectFormat(ftyp('qt  '))?.mimeType).toBe('video/mov');
+    expect(detectFormat(ftyp('M4A '))?.mimeType).toBe('audio/mp4');
+    expect(detectFormat(ftyp('3gp5'))?.mimeType).toBe('video/3gpp');
+    expect(detectFormat(ftyp('heic'))?.mimeType).toBe('image/heic');
+    expect(detectFormat(ftyp('M4V '))?.mimeType).toBe('video/mp4');
+  });
+
+  it('leaves generic ftyp brands to the file extension', () => {
+    expect(detectFormat(ftyp('isom'), 'song.m4a')?.mimeType).toBe('audio/mp4');
+    expect(detectFormat(ftyp('mp42'), 'clip.mp4')?.mimeType).toBe('video/mp4');
+    expect(detectFormat(ftyp('avif'))).toBeUndefined();
+  });
+
+  it('prefers magic bytes over a misleading extension', () => {
+    expect(detectFormat(Buffer.from('%PDF-1.7\n'), 'scan.jpg')?.mimeType).toBe('application/pdf');
+    expect(detectFormat(Buffer.from('ID3\x04\0\0\0\0\0\0', 'latin1'), 'track.wav')?.mimeType).toBe('audio/mp3');
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { MODERATION_CATEGORY_DESCRIPTIONS, buildPolicy, toModerationVerdicts } from '../../src/utils/moderation.js';
+
+const policy = buildPolicy(['violence', 'nudity'], [{ name: 'gambling', description: 'Betting or casino games' }]);
+
+describe('buildPolicy', () => {
+  it('lists built-in categories with their rubric and lets custom ones replace them', () => {
+    expect(buildPolicy(['violence'], [{ name: 'violence', description: 'Only real violence' }, { name: 'gambling', description: 'Betting' }])).toEqual([
+      { name: 'violence', description: 'Only real violence' },
+      { name: 'gambling', description: 'Betting' }
+    ]);
+    expect(policy[1]).toEqual({ name: 'nudity', description: MODERATION_CATEGORY_DESCRIPTIONS.nudity });
+  });
+});
+
+describe('toModerationVerdicts', () => {
+  it('returns one verdict per policy category and flags from the configured severity', () => {
+    const verdicts = toModerationVerdicts({
+      verdicts: [
+        { category: 'violence', severity: 'medium', confidence: 1.4, rationale: ' A fight ' },
+        { category: 'gambling', severity: 'low', confidence: 0.6, rationale: 'Cards on a table' },
+        { category: 'unknown', severity: 'high', confidence: 1, rationale: 'Not in the policy' }
+      ]
+    }, policy, 'medium', false);
+
+    expect(verdicts).toEqual([
+      { category: 'violence', severity: 'medium', flagged: true, confidence: 1, rationale: 'A fight' },
+      { category: 'nudity', severity: 'none', flagged: false, confidence: 0, rationale: 'No verdict was returned for this category' },
+      { category: 'gambling', severity: 'low', flagged: false, confidence: 0.6, rationale: 'Cards on a table' }
+    ]);
+  });
+
+  it('raises verdicts to the severity of matching safety ratings but never lowers them', () => {
+    const verdicts = toModerationVerdicts({
+      verdicts: [
+        { category: 'violence', severity: 'high', confidence: 0.9, rationale: 'Gore' },
+        { category: 'nudity', severity: 'low', confidence: 0.5, rationale: 'Swimwear' }
+      ]
+    }, policy, 'high', false, [
+      { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', probability: 'LOW' },
+      { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', probability: 'HIGH' },
+      { category: 'HARM_CATEGORY_HARASSMENT', probability: 'HIGH' }
+    ]);
+
+    expect(verdicts[0]).toMatchObject({ severity: 'high', flagged: true });
+    expect(verdicts[0]).not.toHaveProperty('safetyRating');
+    expect(verdicts[1]).toMatchObject({ severity: 'high', flagged: true, safetyRating: 'HARM_CATEGORY_SEXUALLY_EXPLICIT: HIGH' });
+    expect(verdicts[2]).toMatchObject({ severity: 'none', flagged: false });
+  });
+
+  it('keeps valid timestamps of timed verdicts above none', () => {
+    const verdicts = toModerationVerdicts({
+      verdicts: [
+        {
+          category: 'violence',
+          severity: 'low',
+          confidence: 0.7,
+          rationale: 'A slap',
+          timestamps: [{ start: '00:10', end: '00:12' }, { start: 'later', end: '00:20' }, { start: '01:00', end: '00:30' }]
+        },
+        { category: 'nudity', severity: 'none', confidence: 0.9, rationale: 'None', timestamps: [{ start: '00:01', end: '00:02' }] }
+      ]
+    }, policy, 'medium', true);
+
+    expect(verdicts[0].timestamps).toEqual([{ start: 10, end: 12 }, { start: 60, end: 60 }]);
+    expect(verdicts[1]).not.toHaveProperty('timestamps');
+  });
+});
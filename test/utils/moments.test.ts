@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { toMoments } from '../../src/utils/moments.js';
+
+const moment = (start: string, end: string, confidence: number, justification = 'match') => ({
+  start,
+  end,
+  confidence,
+  justification
+});
+
+describe('toMoments', () => {
+  it('keeps the most confident moments in time order', () => {
+    const moments = toMoments({
+      moments: [
+        moment('00:03:00', '00:03:10', 0.9),
+        moment('00:01:00', '00:01:10', 0.5),
+        moment('00:02:00', '00:02:10', 0.7)
+      ]
+    }, 2);
+
+    expect(moments.map(({ start, confidence }) => [start, confidence])).toEqual([[120, 0.7], [180, 0.9]]);
+  });
+
+  it('gives moments without a usable end a minimal span inside the video', () => {
+    const moments = toMoments({
+      moments: [
+        moment('00:00:10', '00:00:10', 0.5),
+        moment('00:00:20', '', 0.5),
+        moment('00:00:59.5', '00:00:50', 0.5)
+      ]
+    }, 10, 60);
+
+    expect(moments.map(({ start, end }) => [start, end])).toEqual([[10, 11], [20, 21], [59.5, 60]]);
+  });
+
+  it('drops malformed moments and those past the end of the video', () => {
+    const moments = toMoments({
+      moments: [moment('later', '00:00:10', 1), moment('00:05:00', '00:05:10', 1), moment('00:00:05', '00:00:08', 1)]
+    }, 10, 60);
+
+    expect(moments.map(({ start }) => start)).toEqual([5]);
+  });
+
+  it('clamps confidence to 0-1 and trims justifications', () => {
+    const moments = toMoments({
+      moments: [moment('00:00:01', '00:00:02', 3, ' seen '), moment('00:00:03', '00:00:04', Number.NaN)]
+    }, 10);
+
+    expect(moments.map(({ confidence, justification }) => [confidence, justification]))
+      .toEqual([[1, 'seen'], [0, 'match']]);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { parseStructuredOutput, resolveResponseSchema, toStructuredContent } from '../../src/utils/structured-output.js';
+import type { JsonSchema } from '../../src/types/index.js';
+
+const schema: JsonSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    count: { type: 'integer', minimum: 0 }
+  },
+  required: ['title']
+};
+
+describe('parseStructuredOutput', () => {
+  it('returns data that matches the schema', () => {
+    expect(parseStructuredOutput('{"title": "Cats", "count": 3}', schema)).toEqual({ title: 'Cats', count: 3 });
+  });
+
+  it('rejects invalid JSON', () => {
+    expect(() => parseStructuredOutput('Here is the JSON: {', schema)).toThrow('Model did not return valid JSON');
+  });
+
+  it('rejects data that does not match the schema', () => {
+    expect(() => parseStructuredOutput('{"count": -1}', schema)).toThrow('Model output does not match the requested schema');
+  });
+
+  it('validates against many different schemas that share an $id', () => {
+    for (let minimum = 0; minimum < 50; minimum++) {
+      const limited: JsonSchema = { $id: 'https://example.com/count', type: 'integer', minimum };
+      expect(parseStructuredOutput(String(minimum), limited)).toBe(minimum);
+      expect(() => parseStructuredOutput(String(minimum - 1), limited)).toThrow('must be >= ' + minimum);
+    }
+  });
+});
+
+describe('resolveResponseSchema', () => {
+  it('uses a preset when no schema is given', () => {
+    expect(resolveResponseSchema(undefined, 'summary')?.required).toEqual(['summary', 'keyPoints', 'tags']);
+    expect(resolveResponseSchema(schema, undefined)).toBe(schema);
+    expect(resolveResponseSchema(undefined, undefined)).toBeUndefined();
+  });
+});
+
+describe('toStructuredContent', () => {
+  it('only passes objects through', () => {
+    expect(toStructuredContent({ a: 1 })).toEqual({ a: 1 });
+    expect(toStructuredContent([1, 2])).toBeUndefined();
+    expect(toStructuredContent('text')).toBeUndefined();
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { renderTranscript, toTranscript } from '../../src/utils/subtitles.js';
+
+describe('toTranscript', () => {
+  it('orders cues, trims text and keeps the detected language', () => {
+    const transcript = toTranscript({
+      language: 'en',
+      segments: [
+        { start: '00:00:02.000', end: '00:00:03.000', speaker: ' Speaker 2 ', text: ' Hi. ' },
+        { start: '00:00:00.000', end: '00:00:01.500', speaker: '', text: 'Hello.' }
+      ]
+    });
+
+    expect(transcript).toEqual({
+      language: 'en',
+      segments: [
+        { start: 0, end: 1.5, text: 'Hello.' },
+        { start: 2, end: 3, speaker: 'Speaker 2', text: 'Hi.' }
+      ]
+    });
+  });
+
+  it('drops cues without a start or text and gives missing ends a default length', () => {
+    const { segments } = toTranscript({
+      segments: [
+        { start: 'later', end: '00:00:05', text: 'Lost' },
+        { start: '00:00:01', end: '00:00:02', text: '   ' },
+        { start: '00:00:10', end: '', text: 'Open ended' }
+      ]
+    });
+
+    expect(segments).toEqual([{ start: 10, end: 12, text: 'Open ended' }]);
+  });
+
+  it('cuts overlapping cues back to the next start without making them zero-length', () => {
+    const { segments } = toTranscript({
+      segments: [
+        { start: '00:00:00', end: '00:00:05', text: 'A' },
+        { start: '00:00:04', end: '00:00:06', text: 'B' },
+        { start: '00:00:04', end: '00:00:07', text: 'C' }
+      ]
+    });
+
+    expect(segments.map(({ start, end }) => [start, end])).toEqual([[0, 4], [4, 4.1], [4, 7]]);
+  });
+});
+
+describe('renderTranscript', () => {
+  const transcript = {
+    language: 'en',
+    segments: [
+      { start: 0, end: 1.5, speaker: 'Ann', text: 'Hello.' },
+      { start: 61.25, end: 3662, text: 'Bye.' }
+    ]
+  };
+
+  it('renders numbered SRT cues with comma milliseconds', () => {
+    expect(renderTranscript(transcript, 'srt')).toBe(
+      '1\n00:00:00,000 --> 00:00:01,500\nAnn: Hello.\n\n' +
+      '2\n00:01:01,250 --> 01:01:02,000\nBye.\n'
+    );
+  });
+
+  it('renders WebVTT with voice tags for speakers', () => {
+    expect(renderTranscript(transcript, 'vtt')).toBe(
+      'WEBVTT\n\n' +
+      '00:00:00.000 --> 00:00:01.500\n<v Ann>Hello.\n\n' +
+      '00:01:01.250 --> 01:01:02.000\nBye.\n'
+    );
+  });
+
+  it('escapes markup and cue arrows in WebVTT text and speaker names', () => {
+    const vtt = renderTranscript({
+      segments: [{ start: 0, end: 1, speaker: 'Tom & <Jerry>', text: 'a < b --> c & d' }]
+    }, 'vtt');
+
+    expect(vtt).toBe('WEBVTT\n\n00:00:00.000 --> 00:00:01.000\n<v Tom &amp; &lt;Jerry&gt;>a &lt; b --&gt; c &amp; d\n');
+    expect(vtt.match(/-->/g)).toHaveLength(1);
+  });
+
+  it('renders JSON as the transcript itself', () => {
+    expect(JSON.parse(renderTranscript(transcript, 'json'))).toEqual(transcript);
+  });
+});
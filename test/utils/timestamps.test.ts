@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { formatCueTimestamp, formatTimestamp, parseTimestamp } from '../../src/utils/timestamps.js';
+
+describe('formatTimestamp', () => {
+  it('uses MM:SS below an hour and HH:MM:SS from an hour on', () => {
+    expect(formatTimestamp(0)).toBe('00:00');
+    expect(formatTimestamp(75.9)).toBe('01:15');
+    expect(formatTimestamp(3600 + 62)).toBe('01:01:02');
+    expect(formatTimestamp(-5)).toBe('00:00');
+  });
+});
+
+describe('formatCueTimestamp', () => {
+  it('formats milliseconds with the requested separator', () => {
+    expect(formatCueTimestamp(3723.4567, ',')).toBe('01:02:03,457');
+    expect(formatCueTimestamp(1.5, '.')).toBe('00:00:01.500');
+  });
+
+  it('carries rounded milliseconds into the seconds', () => {
+    expect(formatCueTimestamp(59.9996, '.')).toBe('00:01:00.000');
+  });
+});
+
+describe('parseTimestamp', () => {
+  it('reads HH:MM:SS, MM:SS and plain seconds with fractions', () => {
+    expect(parseTimestamp('01:02:03')).toBe(3723);
+    expect(parseTimestamp('02:03.5')).toBe(123.5);
+    expect(parseTimestamp('00:00:01,250')).toBe(1.25);
+    expect(parseTimestamp('42')).toBe(42);
+    expect(parseTimestamp(7.5)).toBe(7.5);
+  });
+
+  it('returns undefined for malformed values', () => {
+    for (const value of ['', 'soon', '1:2:3:4', '-5', '01:xx', undefined]) {
+      expect(parseTimestamp(value), String(value)).toBeUndefined();
+    }
+    expect(parseTimestamp(-1)).toBeUndefined();
+    expect(parseTimestamp(Number.NaN)).toBeUndefined();
+  });
+});